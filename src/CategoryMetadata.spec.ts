@@ -0,0 +1,100 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as Path from "path";
+import { getCategoryMetadata } from "./CategoryMetadata";
+import { HierarchicalNamedLayoutStrategy } from "./HierarchicalNamedLayoutStrategy";
+import { defaultPropertyNames, NotionPage } from "./NotionPage";
+import { makeSamplePageObject } from "./plugins/pluginTestRun";
+
+function levelPage(properties: Record<string, unknown> = {}) {
+  const page = makeSamplePageObject({});
+  Object.assign((page.metadata as any).properties, properties);
+  return page;
+}
+
+function callout(text: string) {
+  return {
+    type: "callout",
+    callout: { rich_text: [{ type: "text", plain_text: text }] },
+  };
+}
+
+describe("getCategoryMetadata", () => {
+  it("is empty for a plain outline page", () => {
+    expect(getCategoryMetadata(levelPage(), [])).toEqual({});
+  });
+
+  it("reads the properties of the page", () => {
+    const page = levelPage({
+      Collapsed: { type: "checkbox", checkbox: true },
+      "Class Name": {
+        type: "rich_text",
+        rich_text: [{ type: "text", plain_text: "red" }],
+      },
+      Description: {
+        type: "rich_text",
+        rich_text: [{ type: "text", plain_text: "All about it" }],
+      },
+    });
+    expect(getCategoryMetadata(page)).toEqual({
+      collapsed: true,
+      className: "red",
+      link: { type: "generated-index", description: "All about it" },
+    });
+  });
+
+  it("reads the properties by the names the page was given", () => {
+    const { metadata, pageId } = levelPage({
+      Replié: { type: "checkbox", checkbox: true },
+      Collapsed: { type: "checkbox", checkbox: false },
+    });
+    const page = new NotionPage({
+      layoutContext: "",
+      pageId,
+      order: 0,
+      metadata,
+      foundDirectlyInOutline: true,
+      propertyNames: { ...defaultPropertyNames, collapsed: "Replié" },
+    });
+    expect(getCategoryMetadata(page)).toEqual({ collapsed: true });
+  });
+
+  it("reads a _category_ callout, which wins over the properties", () => {
+    const page = levelPage({
+      Collapsed: { type: "checkbox", checkbox: true },
+    });
+    const blocks = [
+      callout("Just a note: not settings"),
+      callout(
+        "_category_\ncollapsed: false\ncollapsible: true\ntitle: Guides overview\nicon: book"
+      ),
+    ];
+    expect(getCategoryMetadata(page, blocks as any)).toEqual({
+      collapsed: false,
+      collapsible: true,
+      link: { type: "generated-index", title: "Guides overview" },
+      customProps: { icon: "book" },
+    });
+  });
+});
+
+describe("_category_.json", () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(Path.join(os.tmpdir(), "docu-notion-"));
+  });
+  afterEach(() => {
+    fs.removeSync(dir);
+  });
+
+  it("is valid JSON even when the label has quotes", () => {
+    const layout = new HierarchicalNamedLayoutStrategy();
+    layout.setRootDirectoryForMarkdown(dir);
+    const context = layout.newLevel(dir, 3, "", 'The "Best" Part', {
+      collapsed: true,
+    });
+    expect(fs.readJsonSync(Path.join(dir, context, "_category_.json"))).toEqual(
+      { position: 3, label: 'The "Best" Part', collapsed: true }
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { ListBlockChildrenResponseResults } from "notion-to-md/build/types";
+import { NotionPage } from "./NotionPage";
+import { NotionBlock } from "./types";
+
+// What Docusaurus understands in a _category_.json (and in a category of a sidebar), see
+// https://docusaurus.io/docs/sidebar/autogenerated#category-item-metadata
+export type CategoryMetadata = {
+  position?: number;
+  label?: string;
+  collapsible?: boolean;
+  collapsed?: boolean;
+  className?: string;
+  link?:
+    | { type: "generated-index"; title?: string; description?: string }
+    | { type: "doc"; id: string };
+  customProps?: Record<string, string>;
+};
+
+// The first line of a callout on an outline page that holds settings for its category
+export const categoryCalloutHeading = "_category_";
+
+// Gets the settings for the category that an outline page makes, other than its position and label.
+// They come from these properties of the page, if it has them (i.e. it is a database page):
+// * "Collapsible" and "Collapsed" (checkboxes)
+// * "Class Name" (text)
+// * "Description" (text), which gives the category a generated index page with this description
+// (or whatever names the propertyNames of the page give them)
+// and from a callout on the page whose first line is "_category_", followed by lines like
+// "collapsed: true". Besides collapsible, collapsed, className, title and description, any
+// other key ends up in customProps. The callout wins over the properties.
+export function getCategoryMetadata(
+  levelPage: NotionPage,
+  blocks: ListBlockChildrenResponseResults = []
+): CategoryMetadata {
+  const names = levelPage.propertyNames;
+  const settings: Record<string, string | boolean | undefined> = {
+    collapsible: levelPage.getCheckboxProperty(names.collapsible),
+    collapsed: levelPage.getCheckboxProperty(names.collapsed),
+    className: levelPage.getPlainTextProperty(names.className),
+    description: levelPage.getPlainTextProperty(names.description),
+    ...getCalloutSettings(blocks),
+  };
+  const { collapsible, collapsed, className, title, description, ...rest } =
+    settings;
+  const metadata: CategoryMetadata = {};
+  if (collapsible !== undefined) metadata.collapsible = asBoolean(collapsible);
+  if (collapsed !== undefined) metadata.collapsed = asBoolean(collapsed);
+  if (className) metadata.className = String(className);
+  if (title || description) {
+    metadata.link = {
+      type: "generated-index",
+      ...(title ? { title: String(title) } : {}),
+      ...(description ? { description: String(description) } : {}),
+    };
+  }
+  for (const [key, value] of Object.entries(rest)) {
+    if (value === undefined) continue;
+    metadata.customProps = { ...metadata.customProps, [key]: String(value) };
+  }
+  return metadata;
+}
+
+// Is this the callout that holds the settings of a category? It is not part of the content of the page.
+export function isCategoryCallout(block: NotionBlock): boolean {
+  return getCalloutLines(block)?.[0]?.trim() === categoryCalloutHeading;
+}
+
+function getCalloutSettings(
+  blocks: ListBlockChildrenResponseResults
+): Record<string, string> {
+  const lines = blocks
+    .map(getCalloutLines)
+    .find(lines => lines?.[0]?.trim() === categoryCalloutHeading);
+  if (!lines) return {};
+  const settings: Record<string, string> = {};
+  for (const line of lines.slice(1)) {
+    const colon = line.indexOf(":");
+    if (colon < 1) continue;
+    settings[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+  }
+  return settings;
+}
+
+function getCalloutLines(block: any): string[] | undefined {
+  if (block?.type !== "callout") return undefined;
+  const richText: Array<{ plain_text: string }> =
+    block.callout?.rich_text ?? [];
+  return richText
+    .map(t => t.plain_text)
+    .join("")
+    .split("\n");
+}
+
+function asBoolean(value: string | boolean): boolean {
+  return typeof value === "boolean" ? value : value.toLowerCase() === "true";
+}
@@ -0,0 +1,131 @@
+import { GetPageResponse } from "@notionhq/client/build/src/api-endpoints";
+import { arrangeDatabasePages } from "./DatabaseOutline";
+import { HierarchicalNamedLayoutStrategy } from "./HierarchicalNamedLayoutStrategy";
+import { defaultPropertyNames, NotionPropertyNames } from "./NotionPage";
+import { makeSamplePageObject } from "./plugins/pluginTestRun";
+
+// the metadata of a database page, with these values of the properties that arrange it
+function databasePage(
+  id: string,
+  name: string,
+  props: { parent?: string; category?: string; order?: number } = {},
+  propertyNames = defaultPropertyNames
+): GetPageResponse {
+  return makeSamplePageObject({
+    id,
+    name,
+    properties: {
+      [propertyNames.parent]: {
+        id: "p",
+        type: "relation",
+        relation: props.parent ? [{ id: props.parent }] : [],
+      },
+      [propertyNames.category]: {
+        id: "c",
+        type: "select",
+        select: props.category ? { name: props.category } : null,
+      },
+      [propertyNames.order]: {
+        id: "o",
+        type: "number",
+        number: props.order ?? null,
+      },
+    },
+  }).metadata;
+}
+
+function arrange(
+  pages: GetPageResponse[],
+  propertyNames?: NotionPropertyNames
+) {
+  const layoutStrategy = new HierarchicalNamedLayoutStrategy();
+  layoutStrategy.setDryRun(true); // don't make directories
+  layoutStrategy.setRootDirectoryForMarkdown("/docs");
+  return arrangeDatabasePages(pages, layoutStrategy, "/docs", propertyNames);
+}
+
+describe("arrangeDatabasePages", () => {
+  it("sorts siblings by Order, then by name", () => {
+    const { pages } = arrange([
+      databasePage("1", "Zebra"),
+      databasePage("2", "Second", { order: 2 }),
+      databasePage("3", "Apple"),
+      databasePage("4", "First", { order: 1 }),
+    ]);
+    expect(pages.map(p => [p.nameOrTitle, p.order])).toEqual([
+      ["First", 0],
+      ["Second", 1],
+      ["Apple", 2],
+      ["Zebra", 3],
+    ]);
+    expect(pages.every(p => p.layoutContext === "")).toBe(true);
+  });
+
+  it("makes a level for each Category, placed where its first page sorts", () => {
+    const { pages, levels } = arrange([
+      databasePage("1", "Intro", { order: 1 }),
+      databasePage("2", "Install", { category: "Guides", order: 3 }),
+      databasePage("3", "Upgrade", { category: "Guides", order: 2 }),
+      databasePage("4", "FAQ", { order: 4 }),
+    ]);
+    expect(pages.map(p => [p.nameOrTitle, p.layoutContext, p.order])).toEqual([
+      ["Intro", "", 0],
+      ["Upgrade", "/Guides", 0],
+      ["Install", "/Guides", 1],
+      ["FAQ", "", 2],
+    ]);
+    expect(levels).toEqual([
+      { outlinePath: "Guides", layoutContext: "/Guides" },
+    ]);
+  });
+
+  it("puts children in a level named for their Parent, after the parent itself", () => {
+    const { pages, levels } = arrange([
+      // relations may or may not have the dashes
+      databasePage("c-1", "Child", { parent: "r1" }),
+      databasePage("r-1", "Reference"),
+      databasePage("g-1", "Grandchild", { parent: "c-1" }),
+    ]);
+    expect(pages.map(p => [p.nameOrTitle, p.layoutContext, p.order])).toEqual([
+      ["Reference", "/Reference", 0],
+      ["Child", "/Reference/Child", 0],
+      ["Grandchild", "/Reference/Child", 1],
+    ]);
+    expect(levels.map(l => [l.pageId, l.outlinePath])).toEqual([
+      ["r-1", "Reference"],
+      ["c-1", "Reference/Child"],
+    ]);
+    // the parents are the landing pages of their levels
+    expect(pages.map(p => p.isCategoryIndex)).toEqual([true, true, false]);
+  });
+
+  it("still outputs pages whose parents form a loop", () => {
+    const { pages } = arrange([
+      databasePage("1", "Chicken", { parent: "2" }),
+      databasePage("2", "Egg", { parent: "1" }),
+    ]);
+    expect(pages.map(p => p.nameOrTitle).sort()).toEqual(["Chicken", "Egg"]);
+  });
+
+  it("uses the property names it is given", () => {
+    const inFrench = {
+      ...defaultPropertyNames,
+      parent: "Parente",
+      category: "Catégorie",
+      order: "Ordre",
+    };
+    const { pages } = arrange(
+      [
+        databasePage("1", "Child", { parent: "2", order: 2 }, inFrench),
+        databasePage("2", "Parent", { order: 2 }, inFrench),
+        databasePage("3", "First", { order: 1 }, inFrench),
+      ],
+      inFrench
+    );
+    expect(pages.map(p => [p.nameOrTitle, p.layoutContext, p.order])).toEqual([
+      ["First", "", 0],
+      ["Parent", "/Parent", 0],
+      ["Child", "/Parent", 1],
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+import { GetPageResponse } from "@notionhq/client/build/src/api-endpoints";
+import { getCategoryMetadata } from "./CategoryMetadata";
+import { LayoutStrategy } from "./LayoutStrategy";
+import {
+  defaultPropertyNames,
+  NotionPage,
+  NotionPropertyNames,
+} from "./NotionPage";
+import { OutlineLevel } from "./OutlineSubtree";
+import { warning } from "./log";
+
+type OutlineItem =
+  | { page: NotionPage }
+  | { category: string; pages: NotionPage[] };
+
+// This is the database equivalent of walking the "Outline" page. Given all the pages of the
+// database, it decides the layoutContext and order of each one, asking the layout strategy for
+// a new level for each category and for each page that has children. A page that has children is
+// put at the top of its own level, followed by its children.
+// These properties (named by `propertyNames`) give the shape of the sidebar:
+// * parent: a relation to another page of the same database; this page goes in the level of that page
+// * category: a select; pages with the same category (and the same parent) are put in a level named for it
+// * order: a number; siblings are sorted by this, then by title
+export function arrangeDatabasePages(
+  metadataOfPages: GetPageResponse[],
+  layoutStrategy: LayoutStrategy,
+  markdownOutputPath: string,
+  propertyNames: NotionPropertyNames = defaultPropertyNames
+): { pages: NotionPage[]; levels: OutlineLevel[] } {
+  const all = metadataOfPages.map(
+    (metadata, index) =>
+      new NotionPage({
+        layoutContext: "",
+        pageId: metadata.id,
+        order: index,
+        metadata,
+        foundDirectlyInOutline: false,
+        propertyNames,
+      })
+  );
+  const byId = new Map(all.map(p => [normalizeId(p.pageId), p]));
+  const parentOf = (page: NotionPage) =>
+    page
+      .getRelationProperty(propertyNames.parent)
+      ?.map(id => byId.get(normalizeId(id)))
+      .find(parent => parent && parent !== page);
+
+  const childrenOf = new Map<NotionPage | undefined, NotionPage[]>();
+  for (const page of all) {
+    const parent = parentOf(page);
+    childrenOf.set(parent, [...(childrenOf.get(parent) ?? []), page]);
+  }
+
+  const pages: NotionPage[] = [];
+  const levels: OutlineLevel[] = [];
+  const placed = new Set<NotionPage>();
+
+  const placeLevel = (
+    siblings: NotionPage[],
+    context: string,
+    outlinePath: string,
+    firstOrder: number,
+    inCategory = false
+  ) => {
+    groupIntoItems(siblings, propertyNames, inCategory).forEach(
+      (item, index) => {
+        const order = firstOrder + index;
+        if ("page" in item) {
+          placePage(item.page, context, outlinePath, order);
+        } else {
+          const levelContext = layoutStrategy.newLevel(
+            markdownOutputPath,
+            order,
+            context,
+            item.category
+          );
+          const levelPath = joinOutlinePath(outlinePath, item.category);
+          levels.push({ outlinePath: levelPath, layoutContext: levelContext });
+          placeLevel(item.pages, levelContext, levelPath, 0, true);
+        }
+      }
+    );
+  };
+
+  const placePage = (
+    page: NotionPage,
+    context: string,
+    outlinePath: string,
+    order: number
+  ) => {
+    if (placed.has(page)) return;
+    placed.add(page);
+    const children = (childrenOf.get(page) ?? []).filter(c => !placed.has(c));
+    if (!children.length) {
+      page.layoutContext = context;
+      page.order = order;
+      pages.push(page);
+      return;
+    }
+    // Like a level of the outline that has text, the page is the landing page of its level,
+    // rather than a generated index.
+    const category = getCategoryMetadata(page);
+    delete category.link;
+    const levelContext = layoutStrategy.newLevel(
+      markdownOutputPath,
+      order,
+      context,
+      page.nameOrTitle,
+      category
+    );
+    const levelPath = joinOutlinePath(outlinePath, page.nameOrTitle);
+    levels.push({
+      pageId: page.pageId,
+      outlinePath: levelPath,
+      layoutContext: levelContext,
+    });
+    page.layoutContext = levelContext;
+    page.order = 0;
+    page.isCategoryIndex = true;
+    pages.push(page);
+    placeLevel(children, levelContext, levelPath, 1);
+  };
+
+  placeLevel(childrenOf.get(undefined) ?? [], "", "", 0);
+
+  // Only pages whose parents form a loop can be left over.
+  const unplaced = all.filter(p => !placed.has(p));
+  if (unplaced.length) {
+    warning(
+      `These pages could not be placed because their "${
+        propertyNames.parent
+      }" properties form a loop, so they will be put at the top level: ${unplaced
+        .map(p => p.nameOrTitle)
+        .join(", ")}`
+    );
+    placeLevel(unplaced, "", "", pages.length);
+  }
+
+  return { pages, levels };
+}
+
+// Sorts the pages of one level and gathers those with the same category together (unless
+// this level is itself a category). A category sorts where its first page would.
+function groupIntoItems(
+  siblings: NotionPage[],
+  propertyNames: NotionPropertyNames,
+  inCategory: boolean
+): OutlineItem[] {
+  const sorted = [...siblings].sort((a, b) => {
+    const orderA = a.getNumberProperty(propertyNames.order) ?? Infinity;
+    const orderB = b.getNumberProperty(propertyNames.order) ?? Infinity;
+    if (orderA !== orderB) return orderA < orderB ? -1 : 1;
+    return a.nameOrTitle.localeCompare(b.nameOrTitle);
+  });
+  const items: OutlineItem[] = [];
+  for (const page of sorted) {
+    const category = inCategory
+      ? undefined
+      : page.getSelectProperty(propertyNames.category);
+    if (!category) {
+      items.push({ page });
+      continue;
+    }
+    const existing = items.find(
+      i => "category" in i && i.category === category
+    );
+    if (existing && "category" in existing) {
+      existing.pages.push(page);
+    } else {
+      items.push({ category, pages: [page] });
+    }
+  }
+  return items;
+}
+
+function joinOutlinePath(outlinePath: string, title: string): string {
+  return outlinePath ? outlinePath + "/" + title : title;
+}
+
+function normalizeId(id: string): string {
+  return id.replaceAll("-", "");
+}
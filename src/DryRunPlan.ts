@@ -0,0 +1,60 @@
+import * as fs from "fs-extra";
+import { info } from "./log";
+import { NotionPage } from "./NotionPage";
+
+export type PlannedChange = "create" | "update" | "delete";
+
+export type PlannedFileChange = {
+  change: PlannedChange;
+  path: string;
+  // only for markdown files that come from a Notion page
+  pageId?: string;
+  title?: string;
+};
+
+// When docu-notion is run with --dry-run, everything that would normally write to or
+// delete from the disk tells this object about it instead. At the end of the run, we
+// print what would have changed.
+export class DryRunPlan {
+  public pages: PlannedFileChange[] = [];
+  public assets: PlannedFileChange[] = [];
+
+  public pageWouldBeWritten(page: NotionPage, path: string): void {
+    this.pages.push({
+      change: fs.existsSync(path) ? "update" : "create",
+      path,
+      pageId: page.pageId,
+      title: page.nameOrTitle,
+    });
+  }
+
+  public pageWouldBeDeleted(path: string): void {
+    this.pages.push({ change: "delete", path });
+  }
+
+  public assetWouldBeWritten(path: string): void {
+    // the same image can be used more than once
+    if (this.assets.some(a => a.path === path)) return;
+    this.assets.push({
+      change: fs.existsSync(path) ? "update" : "create",
+      path,
+    });
+  }
+
+  public assetWouldBeDeleted(path: string): void {
+    this.assets.push({ change: "delete", path });
+  }
+
+  public report(): void {
+    const summarize = (list: PlannedFileChange[]) =>
+      (["create", "update", "delete"] as PlannedChange[])
+        .map(
+          change =>
+            `${list.filter(f => f.change === change).length} to ${change}`
+        )
+        .join(", ");
+    info(`Dry run: pages: ${summarize(this.pages)}.`);
+    info(`Dry run: assets: ${summarize(this.assets)}.`);
+    info(JSON.stringify({ pages: this.pages, assets: this.assets }, null, 2));
+  }
+}
@@ -0,0 +1,83 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as Path from "path";
+import { FlatGuidLayoutStrategy } from "./FlatGuidLayoutStrategy";
+import { makeSamplePageObject } from "./plugins/pluginTestRun";
+
+describe("FlatGuidLayoutStrategy", () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(Path.join(os.tmpdir(), "docu-notion-"));
+  });
+  afterEach(() => {
+    fs.removeSync(dir);
+  });
+
+  function page(id: string, layoutContext: string, order: number) {
+    const p = makeSamplePageObject({ id, name: id });
+    p.layoutContext = layoutContext;
+    p.order = order;
+    return p;
+  }
+
+  it("writes a sidebar that mirrors the outline", () => {
+    const layout = new FlatGuidLayoutStrategy();
+    layout.setRootDirectoryForMarkdown(dir);
+    // the outline: intro, Guides (install, Advanced (tuning)), faq, Empty ()
+    const guides = layout.newLevel(dir, 1, "", "Guides");
+    const advanced = layout.newLevel(dir, 1, guides, "Advanced");
+    layout.newLevel(dir, 3, "", "Empty");
+    const pages = [
+      page("faq", "", 2),
+      page("intro", "", 0),
+      page("install", guides, 0),
+      page("tuning", advanced, 0),
+    ];
+    expect(layout.getPathForPage(pages[0], ".md")).toBe(`${dir}/faq.md`);
+
+    layout.finishPull(pages);
+
+    expect(fs.readJsonSync(Path.join(dir, "sidebars.json"))).toEqual({
+      docs: [
+        "intro",
+        {
+          type: "category",
+          label: "Guides",
+          items: [
+            "install",
+            { type: "category", label: "Advanced", items: ["tuning"] },
+          ],
+        },
+        "faq",
+      ],
+    });
+  });
+
+  it("uses doc ids that Docusaurus won't change, within the docs directory", () => {
+    const docsPath = Path.join(dir, "docs");
+    fs.mkdirsSync(Path.join(docsPath, "api"));
+    const layout = new FlatGuidLayoutStrategy({ docsPath });
+    layout.setRootDirectoryForMarkdown(Path.join(docsPath, "api"));
+    const numeric = page("12345678-aaaa-bbbb-cccc-dddddddddddd", "", 0);
+
+    layout.finishPull([numeric]);
+
+    // without an explicit id, Docusaurus would see "12345678-" as a number prefix
+    expect(layout.getFrontmatter(numeric)).toEqual({ id: numeric.pageId });
+    expect(
+      fs.readJsonSync(Path.join(docsPath, "api", "sidebars.json"))
+    ).toEqual({ docs: [`api/${numeric.pageId}`] });
+  });
+
+  it("can write the sidebar as a module, with another name", () => {
+    const sidebarPath = Path.join(dir, "sidebars.js");
+    const layout = new FlatGuidLayoutStrategy({
+      sidebarPath,
+      sidebarId: "guide",
+    });
+    layout.setRootDirectoryForMarkdown(dir);
+    layout.finishPull([page("intro", "", 0)]);
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    expect(require(sidebarPath)).toEqual({ guide: ["intro"] });
+  });
+});
@@ -1,5 +1,9 @@
+import * as fs from "fs-extra";
+import * as Path from "path";
 import { LayoutStrategy } from "./LayoutStrategy";
+import { verbose } from "./log";
 import { NotionPage } from "./NotionPage";
+import { CategoryMetadata } from "./CategoryMetadata";
 
 // This strategy creates a flat list of files that have notion-id for file names.
 // Pros: the urls will never change so long as the notion pages are not delete and re-recreated.
@@ -8,23 +12,166 @@ import { NotionPage } from "./NotionPage";
 //    * is less "future" proof, in the sense that if you someday take these files and move them
 //    * to a new system, maybe you will wish the files had names.
 
-// TODO: for this to be viable, we'd also have to emit info on how to build the sidebar, because
-// the directory/file structure itself is no longer representative of the outline we want.
+// Because the directory/file structure itself is no longer representative of the outline we want,
+// this strategy also writes a Docusaurus sidebar file that mirrors the outline.
+
+type SidebarItem =
+  | string // a doc id
+  | ({ type: "category"; label: string; items: SidebarItem[] } & Omit<
+      CategoryMetadata,
+      "position" | "label"
+    >);
+
 export class FlatGuidLayoutStrategy extends LayoutStrategy {
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  private levels: Array<{
+    context: string;
+    parentContext: string;
+    label: string;
+    order: number;
+    category: CategoryMetadata;
+  }> = [];
+  private sidebarPath?: string;
+  private sidebarId: string;
+  private docsPath: string;
+
+  // `sidebarPath` is where to write the sidebar; if it ends in ".js" it is a module, otherwise JSON.
+  // By default, it is sidebars.json in the markdown directory. `sidebarId` is the name of the sidebar
+  // in that file, which you use in docusaurus.config.js. `docsPath` is the `path` of the Docusaurus
+  // docs plugin ("docs" by default); the doc ids in the sidebar include where the markdown is within it.
+  public constructor(
+    options: {
+      sidebarPath?: string;
+      sidebarId?: string;
+      docsPath?: string;
+    } = {}
+  ) {
+    super();
+    this.sidebarPath = options.sidebarPath;
+    this.sidebarId = options.sidebarId ?? "docs";
+    this.docsPath = options.docsPath ?? "docs";
+  }
+
+  public setRootDirectoryForMarkdown(markdownOutputPath: string): void {
+    super.setRootDirectoryForMarkdown(markdownOutputPath);
+    this.levels = []; // we may be used for more than one pull
+  }
+
   public newLevel(
     rootDir: string,
     order: number,
     context: string,
-    _levelLabel: string
+    levelLabel: string,
+    category: CategoryMetadata = {}
   ): string {
-    // In this strategy, we ignore context and don't create any directories to match the levels.
-    // Just return the following for the benefit of logging.
-    return context + "/" + _levelLabel;
+    // In this strategy, we don't create any directories to match the levels, we just remember them for the sidebar.
+    const newContext = context + "/" + levelLabel;
+    this.levels.push({
+      context: newContext,
+      parentContext: context,
+      label: levelLabel,
+      order,
+      category,
+    });
+    return newContext;
   }
 
   public getPathForPage(page: NotionPage, extensionWithDot: string): string {
     // In this strategy, we don't care about the location or the title
     return this.rootDirectory + "/" + page.pageId + extensionWithDot;
   }
+
+  // Docusaurus would take the digits at the start of an id like "12345678-..." for a number prefix
+  // and strip them from the doc id, so we give the id explicitly.
+  public getFrontmatter(page: NotionPage): Record<string, unknown> {
+    return { id: page.pageId };
+  }
+
+  public finishPull(publishedPages: NotionPage[]): void {
+    const path = this.sidebarPath ?? this.rootDirectory + "/sidebars.json";
+    if (this.dryRun) {
+      verbose(`would write sidebar ${path}`);
+      return;
+    }
+    const json = JSON.stringify(
+      { [this.sidebarId]: this.getSidebarItems("", publishedPages) },
+      null,
+      2
+    );
+    verbose(`writing sidebar ${path}`);
+    fs.writeFileSync(
+      path,
+      path.endsWith(".js") ? `module.exports = ${json};\n` : json + "\n"
+    );
+  }
+
+  // The levels and pages in this part of the outline, in outline order. Levels that end up empty
+  // (e.g. because none of their pages are published) are left out, unless they have a landing page.
+  private getSidebarItems(
+    context: string,
+    publishedPages: NotionPage[]
+  ): SidebarItem[] {
+    const items: Array<{ order: number; item: SidebarItem }> = [
+      ...this.levels
+        .filter(level => level.parentContext === context)
+        .map(level => ({
+          order: level.order,
+          item: {
+            ...withoutPositionAndLabel(level.category),
+            ...this.getLinkToLandingPage(level.context, publishedPages),
+            type: "category" as const,
+            label: level.label,
+            items: this.getSidebarItems(level.context, publishedPages),
+          },
+        })),
+      ...publishedPages
+        .filter(page => page.layoutContext === context && !page.isCategoryIndex)
+        .map(page => ({ order: page.order, item: this.getDocId(page) })),
+    ];
+    return items
+      .filter(
+        i =>
+          typeof i.item === "string" ||
+          i.item.items.length > 0 ||
+          i.item.link?.type === "doc"
+      )
+      .sort((a, b) => a.order - b.order)
+      .map(i => i.item);
+  }
+
+  private getLinkToLandingPage(
+    context: string,
+    publishedPages: NotionPage[]
+  ): Pick<CategoryMetadata, "link"> {
+    const landingPage = publishedPages.find(
+      page => page.layoutContext === context && page.isCategoryIndex
+    );
+    return landingPage
+      ? { link: { type: "doc", id: this.getDocId(landingPage) } }
+      : {};
+  }
+
+  // Docusaurus makes the doc id from the directory of the file, within the docs, and the id in
+  // its frontmatter.
+  private getDocId(page: NotionPage): string {
+    const directory = Path.relative(
+      Path.resolve(this.docsPath),
+      Path.resolve(this.rootDirectory)
+    );
+    if (
+      !directory ||
+      directory.startsWith("..") ||
+      Path.isAbsolute(directory)
+    ) {
+      return page.pageId; // the markdown is not within the docs, so we can only guess
+    }
+    return directory.split(Path.sep).join("/") + "/" + page.pageId;
+  }
+}
+
+function withoutPositionAndLabel(
+  category: CategoryMetadata
+): Omit<CategoryMetadata, "position" | "label"> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { position, label, ...rest } = category;
+  return rest;
 }
@@ -2,6 +2,7 @@ import * as fs from "fs-extra";
 import sanitize from "sanitize-filename";
 import { LayoutStrategy } from "./LayoutStrategy";
 import { NotionPage } from "./NotionPage";
+import { CategoryMetadata } from "./CategoryMetadata";
 
 // This strategy gives us a file tree that mirrors that of notion.
 // Each level in the outline becomes a directory, and each file bears the name of the Notion document.
@@ -12,17 +13,26 @@ export class HierarchicalNamedLayoutStrategy extends LayoutStrategy {
     dirRoot: string,
     order: number,
     context: string,
-    levelLabel: string
+    levelLabel: string,
+    category: CategoryMetadata = {}
   ): string {
     const path = context + "/" + sanitize(levelLabel).replaceAll(" ", "-");
 
     //console.log("Creating level " + path);
     const newPath = dirRoot + "/" + path;
-    fs.mkdirSync(newPath, { recursive: true });
-    this.addCategoryMetadata(newPath, order, levelLabel);
+    if (!this.dryRun) {
+      fs.mkdirSync(newPath, { recursive: true });
+      this.addCategoryMetadata(newPath, order, levelLabel, category);
+    }
     return path;
   }
 
+  public getDirectoryForLevel(layoutContext: string): string {
+    return (this.rootDirectory + "/" + layoutContext)
+      .replaceAll("//", "/")
+      .replace(/\/$/, "");
+  }
+
   public getPathForPage(page: NotionPage, extensionWithDot: string): string {
     const sanitizedName = sanitize(page.nameForFile())
       .replaceAll("//", "/")
@@ -37,8 +47,9 @@ export class HierarchicalNamedLayoutStrategy extends LayoutStrategy {
       .replaceAll("?", "-");
 
     const context = ("/" + page.layoutContext + "/").replaceAll("//", "/");
-    const path =
-      this.rootDirectory + context + sanitizedName + extensionWithDot;
+    // Docusaurus makes the index.md of a directory the page that its category links to
+    const name = page.isCategoryIndex ? "index" : sanitizedName;
+    const path = this.rootDirectory + context + name + extensionWithDot;
 
     return path;
   }
@@ -57,8 +68,16 @@ export class HierarchicalNamedLayoutStrategy extends LayoutStrategy {
   //     "description": "This description can be used in the swizzled DocCard"
   //   }
   // }
-  private addCategoryMetadata(dir: string, order: number, label: string) {
-    const data = `{"position":${order}, "label":"${label}"}`;
-    fs.writeFileSync(dir + "/_category_.json", data);
+  private addCategoryMetadata(
+    dir: string,
+    order: number,
+    label: string,
+    category: CategoryMetadata
+  ) {
+    const data = { position: order, label, ...category };
+    fs.writeFileSync(
+      dir + "/_category_.json",
+      JSON.stringify(data, null, 2) + "\n"
+    );
   }
 }
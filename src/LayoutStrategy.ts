@@ -1,38 +1,76 @@
 import * as fs from "fs-extra";
 import { verbose } from "./log";
 import { NotionPage } from "./NotionPage";
+import { CategoryMetadata } from "./CategoryMetadata";
 
 // Here a fuller name would be File Tree Layout Strategy. That is,
 // as we walk the Notion outline and create files, where do we create them, what do we name them, etc.
 export abstract class LayoutStrategy {
   protected rootDirectory = "";
   protected existingPagesNotSeenYetInPull: string[] = [];
+  // when true, we figure out paths as usual but don't create any directories or files
+  protected dryRun = false;
 
   public setRootDirectoryForMarkdown(markdownOutputPath: string): void {
     this.rootDirectory = markdownOutputPath;
-    this.existingPagesNotSeenYetInPull =
-      this.getListOfExistingFiles(markdownOutputPath);
+    // in a dry run, the directory may not have been created yet
+    this.existingPagesNotSeenYetInPull = fs.existsSync(markdownOutputPath)
+      ? this.getListOfExistingFiles(markdownOutputPath)
+      : [];
+  }
+
+  public setDryRun(dryRun: boolean): void {
+    this.dryRun = dryRun;
   }
 
-  public async cleanupOldFiles(): Promise<void> {
+  // If `withinDirectory` is given, only files inside of it are included.
+  public getExistingPagesNotSeenYetInPull(withinDirectory?: string): string[] {
+    return this.existingPagesNotSeenYetInPull.filter(
+      p => withinDirectory === undefined || p.startsWith(withinDirectory + "/")
+    );
+  }
+
+  // If `withinDirectory` is given (e.g. when pulling just part of the outline), files elsewhere are left alone.
+  public async cleanupOldFiles(withinDirectory?: string): Promise<void> {
     // Remove any pre-existing files that aren't around anymore; this indicates that they were removed or renamed in Notion.
-    for (const p of this.existingPagesNotSeenYetInPull) {
+    for (const p of this.getExistingPagesNotSeenYetInPull(withinDirectory)) {
       verbose(`Removing old doc: ${p}`);
       await fs.rm(p);
     }
   }
 
+  // `category` holds any settings the outline gives for this level, like whether it starts collapsed.
   public abstract newLevel(
     rootDir: string,
     order: number,
     context: string,
-    levelLabel: string
+    levelLabel: string,
+    category?: CategoryMetadata
   ): string;
   public abstract getPathForPage(
     page: NotionPage,
     extensionWithDot: string
   ): string;
 
+  // The directory that holds the files of a level, if this strategy makes one for each level.
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public getDirectoryForLevel(_layoutContext: string): string | undefined {
+    return undefined;
+  }
+
+  // Called at the end of a pull with the pages that were published, for strategies that need to
+  // write more than the pages themselves, e.g. a sidebar.
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public finishPull(_publishedPages: NotionPage[]): void {
+    // nothing to do by default
+  }
+
+  // Anything this strategy needs in the frontmatter of a page, e.g. an explicit doc id.
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public getFrontmatter(_page: NotionPage): Record<string, unknown> {
+    return {};
+  }
+
   public getLinkPathForPage(page: NotionPage): string {
     // the url we return starts with a "/", meaning it is relative to the root of the markdown root (e.g. /docs root in Docusaurus)
     return ("/" + page.slug).replaceAll("//", "/");
@@ -12,24 +12,26 @@ beforeAll(async () => {
 */
 /* eslint-disable @typescript-eslint/require-await */
 test("finds primary image url", async () => {
-  await initImageHandling("", "", []);
-  const img = parseImageBlock(kImageBlockWithTwoLocalizedImages.image);
+  const { locales } = await initImageHandling("", "", []);
+  const img = parseImageBlock(kImageBlockWithTwoLocalizedImages.image, locales);
   expect(img.primaryUrl).toBe(kPrimaryImageUrl);
 });
 
 test("primary caption content after image links are removed", async () => {
-  await initImageHandling("", "", []);
+  const { locales } = await initImageHandling("", "", []);
   const img = parseImageBlock(
-    kImageBlockWithTwoLocalizedImagesWrappedWithActualCaptionText.image
+    kImageBlockWithTwoLocalizedImagesWrappedWithActualCaptionText.image,
+    locales
   );
   // carriage returns seem to mess up the markdown, so should be removed
   expect(img.caption).toBe("Caption before images. Caption after images.");
 });
 
 test("gets localized image links", async () => {
-  await initImageHandling("", "", []);
+  const { locales } = await initImageHandling("", "", []);
   const img = parseImageBlock(
-    kImageBlockWithTwoLocalizedImagesWrappedWithActualCaptionText.image
+    kImageBlockWithTwoLocalizedImagesWrappedWithActualCaptionText.image,
+    locales
   );
   expect(img.localizedUrls.length).toBe(2);
   expect(img.localizedUrls[0].iso632Code).toBe("fr");
@@ -155,4 +155,128 @@ describe("NotionPage", () => {
       expect(result).toBe("Default Value");
     });
   });
+
+  describe("typed accessors", () => {
+    const page = new NotionPage({
+      layoutContext: "Test Context",
+      pageId: "123",
+      order: 1,
+      metadata: {
+        ...mockMetadata,
+        properties: {
+          Website: { id: "u", type: "url", url: "https://example.com" },
+          Contact: { id: "e", type: "email", email: "a@example.com" },
+          Phone: { id: "p", type: "phone_number", phone_number: null },
+          Stage: { id: "s", type: "status", status: { name: "Done" } },
+          Reviewers: {
+            id: "r",
+            type: "people",
+            people: [
+              {
+                object: "user",
+                id: "U1",
+                name: "Ann",
+                type: "person",
+                person: { email: "ann@example.com" },
+              },
+            ],
+          },
+          Creator: {
+            id: "c",
+            type: "created_by",
+            created_by: { object: "user", id: "U2" },
+          },
+          Attachments: {
+            id: "f",
+            type: "files",
+            files: [
+              {
+                name: "a.pdf",
+                type: "external",
+                external: { url: "https://example.com/a.pdf" },
+              },
+              {
+                name: "b.png",
+                type: "file",
+                file: { url: "https://s3/b.png", expiry_time: "" },
+              },
+            ],
+          },
+          Words: {
+            id: "w",
+            type: "formula",
+            formula: { type: "number", number: 42 },
+          },
+          Due: {
+            id: "d",
+            type: "formula",
+            formula: { type: "date", date: { start: "2024-01-02" } },
+          },
+          Owners: {
+            id: "o",
+            type: "rollup",
+            rollup: {
+              type: "array",
+              function: "show_original",
+              array: [
+                { type: "select", select: { name: "Team A" } },
+                { type: "select", select: null },
+              ],
+            },
+          },
+          Total: {
+            id: "t",
+            type: "rollup",
+            rollup: { type: "number", number: 7, function: "sum" },
+          },
+          Related: { id: "rel", type: "relation", relation: [{ id: "P1" }] },
+        },
+      } as any,
+      foundDirectlyInOutline: true,
+    });
+
+    it("should read each type of property", () => {
+      expect(page.getUrlProperty("Website")).toBe("https://example.com");
+      expect(page.getEmailProperty("Contact")).toBe("a@example.com");
+      expect(page.getStatusProperty("Stage")).toBe("Done");
+      expect(page.getPeopleProperty("Reviewers")).toEqual([
+        { id: "U1", name: "Ann", email: "ann@example.com" },
+      ]);
+      expect(page.getCreatedByProperty("Creator")).toEqual({ id: "U2" });
+      expect(page.getFilesProperty("Attachments")).toEqual([
+        "https://example.com/a.pdf",
+        "https://s3/b.png",
+      ]);
+      expect(page.getFormulaProperty("Words")).toBe(42);
+      expect(page.getFormulaProperty("Due")).toBe("2024-01-02");
+      expect(page.getRollupProperty("Owners")).toEqual(["Team A"]);
+      expect(page.getRollupProperty("Total")).toBe(7);
+      expect(page.getRelationProperty("Related")).toEqual(["P1"]);
+    });
+
+    it("should return undefined for empty or missing properties", () => {
+      expect(page.getPhoneNumberProperty("Phone")).toBeUndefined();
+      for (const accessor of [
+        "getSelectProperty",
+        "getMultiSelectProperty",
+        "getNumberProperty",
+        "getCheckboxProperty",
+        "getUrlProperty",
+        "getEmailProperty",
+        "getPhoneNumberProperty",
+        "getStatusProperty",
+        "getPeopleProperty",
+        "getRelationProperty",
+        "getFilesProperty",
+        "getFormulaProperty",
+        "getRollupProperty",
+        "getCreatedByProperty",
+        "getLastEditedByProperty",
+        "getPlainTextProperty",
+        "getDateProperty",
+      ] as const) {
+        expect(page[accessor]("nonexistent")).toBeUndefined();
+      }
+    });
+  });
 });
@@ -1,6 +1,9 @@
 /* eslint-disable @typescript-eslint/no-unsafe-return */
 /* eslint-disable @typescript-eslint/no-unsafe-call */
-import { GetPageResponse } from "@notionhq/client/build/src/api-endpoints";
+import {
+  GetPageResponse,
+  PageObjectResponse,
+} from "@notionhq/client/build/src/api-endpoints";
 import { parseLinkId } from "./plugins/internalLinks";
 import { ListBlockChildrenResponseResults } from "notion-to-md/build/types";
 import { info } from "./log";
@@ -14,12 +17,67 @@ export enum PageType {
   Simple,
 }
 
+// A property of a database page, as Notion gives it, e.g. { id: "...", type: "number", number: 3 }
+type NotionProperty = PageObjectResponse["properties"][string];
+
+// A Notion user, as found in "people", "created_by" and "last_edited_by" properties. Notion only
+// gives the name and email of people, not of the creator and last editor of a page.
+export type NotionUser = { id: string; name?: string; email?: string };
+
+// The names of the properties of database pages that docu-notion reads. Workspaces in other
+// languages can give their own names in the `propertyNames` of docu-notion.config.ts.
+export type NotionPropertyNames = {
+  name: string;
+  slug: string;
+  status: string;
+  keywords: string;
+  authors: string;
+  lastAuthor: string;
+  image: string;
+  description: string;
+  tags: string;
+  frontmatter: string;
+  publishDate: string;
+  unpublishDate: string;
+  // used to arrange the pages of a database that has no outline (see DatabaseOutline.ts)
+  parent: string;
+  category: string;
+  order: string;
+  // used for the category of a level that comes from a database page (see CategoryMetadata.ts)
+  collapsible: string;
+  collapsed: string;
+  className: string;
+};
+
+export const defaultPropertyNames: NotionPropertyNames = {
+  name: "Name",
+  slug: "Slug",
+  status: "Status",
+  keywords: "Keywords",
+  authors: "Authors",
+  lastAuthor: "Last author",
+  image: "Image",
+  description: "Description",
+  tags: "Tags",
+  frontmatter: "Frontmatter",
+  publishDate: "Publish date",
+  unpublishDate: "Unpublish date",
+  parent: "Parent",
+  category: "Category",
+  order: "Order",
+  collapsible: "Collapsible",
+  collapsed: "Collapsed",
+  className: "Class Name",
+};
+
 export class NotionPage {
   public metadata: GetPageResponse;
   public pageId: string;
   public order: number;
   public layoutContext: string; // where we found it in the hierarchy of the outline
   public foundDirectlyInOutline: boolean; // the page was found as a descendent of /outline instead of being linked to
+  public isCategoryIndex = false; // the page is a level of the outline, and its content is the landing page of that level
+  public readonly propertyNames: NotionPropertyNames;
 
   public constructor(args: {
     layoutContext: string;
@@ -27,12 +85,14 @@ export class NotionPage {
     order: number;
     metadata: GetPageResponse;
     foundDirectlyInOutline: boolean;
+    propertyNames?: NotionPropertyNames;
   }) {
     this.layoutContext = args.layoutContext;
     this.pageId = args.pageId;
     this.order = args.order;
     this.metadata = args.metadata;
     this.foundDirectlyInOutline = args.foundDirectlyInOutline;
+    this.propertyNames = args.propertyNames ?? defaultPropertyNames;
 
     // review: this is expensive to learn as it takes another api call... I
     // think? We can tell if it's a database because it has a "Name" instead of a
@@ -92,11 +152,11 @@ export class NotionPage {
   }
   // In Notion, pages from the Database have "Name"s.
   private get name(): string {
-    return this.getPlainTextProperty("Name", "name missing");
+    return this.getPlainTextProperty(this.propertyNames.name, "name missing");
   }
 
   private explicitSlug(): string | undefined {
-    const explicitSlug = this.getPlainTextProperty("Slug", "");
+    const explicitSlug = this.getPlainTextProperty(this.propertyNames.slug, "");
     if (explicitSlug) {
       if (explicitSlug === "/") return explicitSlug;
       // the root page
@@ -132,44 +192,61 @@ export class NotionPage {
     return this.explicitSlug() !== undefined;
   }
   public get keywords(): string | undefined {
-    return this.getMultiSelectProperty("Keywords");
+    return this.getMultiSelectProperty(this.propertyNames.keywords);
   }
 
   public get authors(): string | undefined {
-    return this.getMultiSelectProperty("Authors");
+    return this.getMultiSelectProperty(this.propertyNames.authors);
   }
 
   public get lastauthor(): string | undefined {
-    return this.getSelectProperty("Last author");
+    return this.getSelectProperty(this.propertyNames.lastAuthor);
   }
 
   public get image(): string | undefined {
-    return this.getPlainTextProperty("Image", "");
+    return this.getPlainTextProperty(this.propertyNames.image, "");
   }
 
   public get description(): string | undefined {
-    return this.getPlainTextProperty("Description", "");
+    return this.getPlainTextProperty(this.propertyNames.description, "");
   }
 
   public get tags(): string | undefined {
-    return this.getMultiSelectProperty("Tags");
+    return this.getMultiSelectProperty(this.propertyNames.tags);
   }
 
   public get frontmatter(): string | undefined {
-    return this.getPlainTextProperty("Frontmatter", "");
+    return this.getPlainTextProperty(this.propertyNames.frontmatter, "");
+  }
+  public get publishDate(): string | undefined {
+    return this.getDateProperty(this.propertyNames.publishDate);
+  }
+  public get unpublishDate(): string | undefined {
+    return this.getDateProperty(this.propertyNames.unpublishDate);
   }
+  // The status can be a Notion "status" property or, as it used to have to be, a "select".
   public get status(): string | undefined {
-    return this.getSelectProperty("Status");
+    return (
+      this.getStatusProperty(this.propertyNames.status) ??
+      this.getSelectProperty(this.propertyNames.status)
+    );
+  }
+
+  public get createdTime(): string {
+    return (this.metadata as PageObjectResponse).created_time;
   }
 
   public get lastEditedTime(): string {
     return (this.metadata as any).last_edited_time;
   }
 
+  // Without a defaultIfEmpty, returns undefined if the property is missing or empty, like the other accessors.
+  public getPlainTextProperty(property: string): string | undefined;
+  public getPlainTextProperty(property: string, defaultIfEmpty: string): string;
   public getPlainTextProperty(
     property: string,
-    defaultIfEmpty: string
-  ): string {
+    defaultIfEmpty?: string
+  ): string | undefined {
     /* Notion strings look like this
    "properties": {
       "slug": {
@@ -196,18 +273,26 @@ export class NotionPage {
         ]
       */
 
-    //console.log("metadata:\n" + JSON.stringify(this.metadata, null, 2));
-    const p = (this.metadata as any).properties?.[property];
+    const p = this.getRawProperty(property);
+    const textArray =
+      p?.type === "title"
+        ? p.title
+        : p?.type === "rich_text"
+        ? p.rich_text
+        : undefined;
+    return textArray?.map(item => item.plain_text).join("") || defaultIfEmpty;
+  }
+
+  // e.g. "select", "checkbox", or undefined if the page doesn't have this property
+  public getPropertyType(property: string): string | undefined {
+    return this.getRawProperty(property)?.type;
+  }
 
-    //console.log(`prop ${property} = ${JSON.stringify(p)}`);
-    if (!p) return defaultIfEmpty;
-    const textArray = p[p.type];
-    //console.log("textarray:" + JSON.stringify(textArray, null, 2));
-    return textArray && textArray.length
-      ? (textArray
-        .map((item: { plain_text: any }) => item.plain_text)
-        .join("") as string)
-      : defaultIfEmpty;
+  // undefined if the page doesn't have this property (or isn't a full page object)
+  private getRawProperty(property: string): NotionProperty | undefined {
+    return "properties" in this.metadata
+      ? this.metadata.properties[property]
+      : undefined;
   }
 
   public getSelectProperty(property: string): string | undefined {
@@ -224,47 +309,115 @@ export class NotionPage {
         },
         */
 
-    const p = (this.metadata as any).properties?.[property];
-    if (!p) {
-      throw new Error(
-        `missing ${property} in ${JSON.stringify(this.metadata, null, 2)}`
-      );
-      return undefined;
-    }
-
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-return
-    return p.select?.name || undefined;
+    const p = this.getRawProperty(property);
+    return (p?.type === "select" && p.select?.name) || undefined;
   }
 
   public getMultiSelectProperty(property: string): string | undefined {
-    const p = (this.metadata as any).properties?.[property];
-    if (!p) {
-      // Return undefined instead of throwing - consistent with other optional properties
-      return undefined;
-    }
+    const p = this.getRawProperty(property);
+    if (p?.type !== "multi_select") return undefined;
+    // Notion doesn't allow commas in the names of options
+    return p.multi_select.map(item => item.name).join(",") || undefined;
+  }
 
-    const multiSelectItems = p.multi_select;
-    if (!multiSelectItems || !Array.isArray(multiSelectItems) || multiSelectItems.length === 0) {
-      return undefined;
-    }
+  public getNumberProperty(property: string): number | undefined {
+    const p = this.getRawProperty(property);
+    return p?.type === "number" && p.number !== null ? p.number : undefined;
+  }
+
+  public getCheckboxProperty(property: string): boolean | undefined {
+    const p = this.getRawProperty(property);
+    return p?.type === "checkbox" ? p.checkbox : undefined;
+  }
+
+  // Returns the ids of the pages this relation points at, e.g. the "Parent" of a page.
+  public getRelationProperty(property: string): string[] | undefined {
+    const p = this.getRawProperty(property);
+    return p?.type === "relation" ? p.relation.map(r => r.id) : undefined;
+  }
+
+  public getUrlProperty(property: string): string | undefined {
+    const p = this.getRawProperty(property);
+    return (p?.type === "url" && p.url) || undefined;
+  }
+
+  public getEmailProperty(property: string): string | undefined {
+    const p = this.getRawProperty(property);
+    return (p?.type === "email" && p.email) || undefined;
+  }
 
-    // Convert each item in the multi_select array to a string representation
-    const multiSelectString = multiSelectItems
-      .filter((item: any) => item && item.name) // Filter out invalid items
-      .map((item: any) => item.name)
-      .join(",");
+  public getPhoneNumberProperty(property: string): string | undefined {
+    const p = this.getRawProperty(property);
+    return (p?.type === "phone_number" && p.phone_number) || undefined;
+  }
+
+  public getStatusProperty(property: string): string | undefined {
+    const p = this.getRawProperty(property);
+    return (p?.type === "status" && p.status?.name) || undefined;
+  }
+
+  public getPeopleProperty(property: string): NotionUser[] | undefined {
+    const p = this.getRawProperty(property);
+    return p?.type === "people" ? p.people.map(toNotionUser) : undefined;
+  }
+
+  public getCreatedByProperty(property: string): NotionUser | undefined {
+    const p = this.getRawProperty(property);
+    return p?.type === "created_by" ? toNotionUser(p.created_by) : undefined;
+  }
 
-    return multiSelectString || undefined; // Return undefined for empty strings
+  public getLastEditedByProperty(property: string): NotionUser | undefined {
+    const p = this.getRawProperty(property);
+    return p?.type === "last_edited_by"
+      ? toNotionUser(p.last_edited_by)
+      : undefined;
   }
 
+  // Returns the urls of the files, whether they were uploaded to Notion or are just links.
+  // Note that the urls of uploaded files expire after an hour.
+  public getFilesProperty(property: string): string[] | undefined {
+    const p = this.getRawProperty(property);
+    if (p?.type !== "files") return undefined;
+    return p.files
+      .map(f => ("external" in f ? f.external.url : f.file.url))
+      .filter(url => !!url);
+  }
 
+  // Returns whatever the formula computes; dates come back as their start date.
+  public getFormulaProperty(
+    property: string
+  ): string | number | boolean | undefined {
+    const p = this.getRawProperty(property);
+    return p?.type === "formula" ? computedValue(p.formula) : undefined;
+  }
 
+  // Returns the number or date the rollup computes or, if it shows the original values, those
+  // values (as text, numbers, etc.) in an array.
+  public getRollupProperty(
+    property: string
+  ): string | number | boolean | Array<unknown> | undefined {
+    const p = this.getRawProperty(property);
+    if (p?.type !== "rollup") return undefined;
+    if (p.rollup.type === "array") {
+      return p.rollup.array
+        .map(propertyValue)
+        .filter((v: unknown) => v !== undefined);
+    }
+    return computedValue(p.rollup);
+  }
 
+  // Without a defaultIfEmpty, returns undefined if the property is missing or empty, like the other accessors.
+  public getDateProperty(property: string): string | undefined;
   public getDateProperty(
     property: string,
     defaultIfEmpty: string,
+    start?: boolean
+  ): string;
+  public getDateProperty(
+    property: string,
+    defaultIfEmpty?: string,
     start = true
-  ): string {
+  ): string | undefined {
     /* Notion dates look like this
    "properties": {
       "published_date":
@@ -280,16 +433,9 @@ export class NotionPage {
     }
     */
 
-    // console.log("metadata:\n" + JSON.stringify(this.metadata, null, 2));
-    const p = (this.metadata as any).properties?.[property];
-
-    // console.log(`prop ${property} = ${JSON.stringify(p)}`);
-    if (!p) return defaultIfEmpty;
-    if (start) {
-      return p?.date?.start ? (p.date.start as string) : defaultIfEmpty;
-    } else {
-      return p?.date?.end ? (p.date.end as string) : defaultIfEmpty;
-    }
+    const p = this.getRawProperty(property);
+    if (p?.type !== "date") return defaultIfEmpty;
+    return (start ? p.date?.start : p.date?.end) || defaultIfEmpty;
   }
 
   public async getContentInfo(
@@ -317,3 +463,45 @@ export class NotionPage {
     };
   }
 }
+
+function toNotionUser(user: any): NotionUser {
+  return {
+    id: user.id,
+    ...(user.name ? { name: user.name as string } : {}),
+    ...(user.person?.email ? { email: user.person.email as string } : {}),
+  };
+}
+
+// the value of a formula or rollup, which look like { type: "number", number: 3 }
+function computedValue(value: any): string | number | boolean | undefined {
+  const v = value[value.type];
+  if (value.type === "date") return v?.start || undefined;
+  return v === null || v === "" ? undefined : v;
+}
+
+// the value of one of the properties in the array of a rollup
+function propertyValue(p: any): unknown {
+  switch (p.type) {
+    case "title":
+    case "rich_text":
+      return (
+        p[p.type].map((t: { plain_text: string }) => t.plain_text).join("") ||
+        undefined
+      );
+    case "select":
+    case "status":
+      return p[p.type]?.name;
+    case "multi_select":
+      return p.multi_select.map((o: { name: string }) => o.name);
+    case "date":
+      return p.date?.start;
+    case "people":
+      return p.people.map(toNotionUser);
+    case "relation":
+      return p.relation.map((r: { id: string }) => r.id);
+    case "formula":
+      return computedValue(p.formula);
+    default:
+      return p[p.type] ?? undefined;
+  }
+}
@@ -4,6 +4,10 @@ import { verbose, logDebug } from "./log";
 
 interface PageInfo {
   lastEditedTime: string;
+  // the pages this one links to, so that when one of them changes we know to update this one
+  linksTo?: string[];
+  // the url it was published at, so that we can notice when its slug changes
+  slug?: string;
 }
 
 interface CacheData {
@@ -54,7 +58,46 @@ export class NotionPageCache {
     return lastEditedTime <= info.lastEditedTime;
   }
 
-  public addPage(pageId: string, lastEditedTime: string): void {
-    this.cache[pageId] = { lastEditedTime };
+  public addPage(
+    pageId: string,
+    lastEditedTime: string,
+    linksTo?: string[]
+  ): void {
+    this.cache[pageId] = {
+      ...this.cache[pageId],
+      lastEditedTime,
+      linksTo: linksTo?.length ? [...new Set(linksTo)] : undefined,
+    };
+  }
+
+  // Forgets that we converted this page, e.g. because its file is being removed, so that it is
+  // converted again when it comes back. Its url stays, so that we can tell it is no longer published.
+  public removePage(pageId: string): void {
+    const slug = this.cache[pageId]?.slug;
+    delete this.cache[pageId];
+    if (slug) this.cache[pageId] = { lastEditedTime: "", slug };
+  }
+
+  public getSlug(pageId: string): string | undefined {
+    return this.cache[pageId]?.slug;
+  }
+
+  // `slug` is undefined when the page is no longer published
+  public setSlug(pageId: string, slug: string | undefined): void {
+    const info = this.cache[pageId];
+    if (info) info.slug = slug;
+  }
+
+  // the pages that were published, and their urls
+  public getSlugs(): Array<{ pageId: string; slug: string }> {
+    return Object.entries(this.cache).flatMap(([pageId, info]) =>
+      info.slug ? [{ pageId, slug: info.slug }] : []
+    );
+  }
+
+  public getPagesLinkingTo(pageId: string): string[] {
+    return Object.keys(this.cache).filter(id =>
+      this.cache[id].linksTo?.includes(pageId)
+    );
   }
 }
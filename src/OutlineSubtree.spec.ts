@@ -0,0 +1,66 @@
+import { findSubtree, OutlineLevel } from "./OutlineSubtree";
+import { makeSamplePageObject } from "./plugins/pluginTestRun";
+
+describe("findSubtree", () => {
+  const levels: OutlineLevel[] = [
+    {
+      pageId: "aaaaaaaa-0000-0000-0000-000000000001",
+      outlinePath: "Guides",
+      layoutContext: "/Guides",
+    },
+    {
+      pageId: "aaaaaaaa-0000-0000-0000-000000000002",
+      outlinePath: "Guides/Getting Started",
+      layoutContext: "/Guides/Getting-Started",
+    },
+    {
+      pageId: "aaaaaaaa-0000-0000-0000-000000000003",
+      outlinePath: "Reference",
+      layoutContext: "/Reference",
+    },
+  ];
+  const install = makeSamplePageObject({
+    name: "Install",
+    id: "bbbbbbbb-0000-0000-0000-000000000001",
+  });
+  install.layoutContext = "/Guides/Getting-Started";
+  const faq = makeSamplePageObject({
+    name: "FAQ",
+    id: "bbbbbbbb-0000-0000-0000-000000000002",
+  });
+  faq.layoutContext = "/Guides";
+  const api = makeSamplePageObject({
+    name: "API",
+    id: "bbbbbbbb-0000-0000-0000-000000000003",
+  });
+  api.layoutContext = "/Reference";
+  const pages = [install, faq, api];
+
+  it("finds a level and its descendants by outline path", () => {
+    const subtree = findSubtree("guides/", pages, levels);
+    expect(subtree?.level?.layoutContext).toBe("/Guides");
+    expect(subtree?.pages).toEqual([install, faq]);
+  });
+
+  it("finds a level by its page id, with or without dashes", () => {
+    expect(
+      findSubtree("aaaaaaaa000000000000000000000002", pages, levels)?.pages
+    ).toEqual([install]);
+    expect(
+      findSubtree("aaaaaaaa-0000-0000-0000-000000000003", pages, levels)?.pages
+    ).toEqual([api]);
+  });
+
+  it("finds a single page by id or outline path", () => {
+    const byId = findSubtree("bbbbbbbb000000000000000000000002", pages, levels);
+    expect(byId?.pages).toEqual([faq]);
+    expect(byId?.level).toBeUndefined();
+    expect(
+      findSubtree("Guides/Getting Started/Install", pages, levels)?.pages
+    ).toEqual([install]);
+  });
+
+  it("returns undefined when nothing matches", () => {
+    expect(findSubtree("Guides/Nope", pages, levels)).toBeUndefined();
+  });
+});
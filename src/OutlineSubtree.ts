@@ -0,0 +1,74 @@
+import { NotionPage } from "./NotionPage";
+
+// A page in the outline that became a level (e.g. a directory and sidebar category).
+export type OutlineLevel = {
+  // undefined for levels that don't come from a page, like a Category in a database query
+  pageId?: string;
+  // the titles of this level and its ancestors, e.g. "Guides/Getting Started"
+  outlinePath: string;
+  // what the layout strategy gave us for this level; pages in this level have this as their layoutContext
+  layoutContext: string;
+};
+
+export type OutlineSubtree = {
+  pages: NotionPage[];
+  // set when the subtree is a whole level rather than a single page
+  level?: OutlineLevel;
+};
+
+// Used by --only. `only` can be the id of a page or a level (with or without dashes), or an outline
+// path made of titles, like "Guides/Getting Started" or "Guides/Getting Started/Install".
+// Returns undefined if nothing matches.
+export function findSubtree(
+  only: string,
+  pages: NotionPage[],
+  levels: OutlineLevel[]
+): OutlineSubtree | undefined {
+  const id = only.trim().replaceAll("-", "");
+  const path = normalizeOutlinePath(only);
+
+  const page = pages.find(p => p.matchesLinkId(id));
+  if (page) return { pages: [page] };
+
+  const level = levels.find(
+    l =>
+      l.pageId?.replaceAll("-", "") === id ||
+      normalizeOutlinePath(l.outlinePath) === path
+  );
+  if (level) {
+    return {
+      level,
+      pages: pages.filter(p => isInLevel(p.layoutContext, level.layoutContext)),
+    };
+  }
+
+  const pageByPath = pages.find(
+    p => normalizeOutlinePath(getOutlinePath(p, levels)) === path
+  );
+  if (pageByPath) return { pages: [pageByPath] };
+
+  return undefined;
+}
+
+export function getOutlinePath(
+  page: NotionPage,
+  levels: OutlineLevel[]
+): string {
+  const level = levels.find(l => l.layoutContext === page.layoutContext);
+  return (level ? level.outlinePath + "/" : "") + page.nameOrTitle;
+}
+
+function isInLevel(layoutContext: string, levelLayoutContext: string) {
+  return (
+    layoutContext === levelLayoutContext ||
+    layoutContext.startsWith(levelLayoutContext + "/")
+  );
+}
+
+function normalizeOutlinePath(path: string): string {
+  return path
+    .split("/")
+    .map(part => part.trim().toLowerCase())
+    .filter(part => part.length > 0)
+    .join("/");
+}
@@ -0,0 +1,57 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as Path from "path";
+import { RedirectMap } from "./RedirectMap";
+
+describe("RedirectMap", () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(Path.join(os.tmpdir(), "docu-notion-"));
+  });
+  afterEach(() => {
+    fs.removeSync(dir);
+  });
+
+  it("accumulates across runs, pointing old urls at the newest one", () => {
+    const first = new RedirectMap(dir);
+    first.pageMoved("/a", "/b");
+    first.save();
+
+    const second = new RedirectMap(dir);
+    second.pageMoved("/b", "/c");
+    second.save();
+
+    expect(fs.readJsonSync(Path.join(dir, "redirects.json"))).toEqual({
+      redirects: [
+        { from: "/a", to: "/c" },
+        { from: "/b", to: "/c" },
+      ],
+      removed: [],
+    });
+  });
+
+  it("drops redirects from urls that are in use again", () => {
+    const map = new RedirectMap(dir);
+    map.pageMoved("/a", "/b");
+    map.pageMoved("/b", "/a");
+    expect(map.redirects).toEqual([{ from: "/b", to: "/a" }]);
+    map.pageIsAt("/b"); // some other page took it
+    expect(map.redirects).toEqual([]);
+  });
+
+  it("lists removed pages separately, with their old urls", () => {
+    const map = new RedirectMap(dir);
+    map.pageMoved("/old", "/new");
+    map.pageRemoved("123", "/new");
+    expect(map.redirects).toEqual([]);
+    expect(map.removed).toEqual([
+      { from: "/old", pageId: "123" },
+      { from: "/new", pageId: "123" },
+    ]);
+  });
+
+  it("doesn't write a file when there is nothing in it", () => {
+    new RedirectMap(dir).save();
+    expect(fs.existsSync(Path.join(dir, "redirects.json"))).toBe(false);
+  });
+});
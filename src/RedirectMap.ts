@@ -0,0 +1,87 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { logDebug, verbose } from "./log";
+
+type Redirect = { from: string; to: string };
+
+type RemovedPage = { from: string; pageId: string };
+
+interface RedirectData {
+  // can be given as is to the `redirects` option of @docusaurus/plugin-client-redirects
+  redirects: Redirect[];
+  // pages that used to be published but aren't anymore, so there is nothing to redirect them to
+  removed: RemovedPage[];
+}
+
+// The redirects.json that sits next to the markdown. It accumulates across pulls, so that urls from
+// long ago keep working, even after a page has moved more than once.
+export class RedirectMap {
+  private data: RedirectData = { redirects: [], removed: [] };
+  private filePath: string;
+
+  constructor(outputDir: string) {
+    this.filePath = path.join(outputDir, "redirects.json");
+    this.load();
+  }
+
+  private load(): void {
+    if (fs.existsSync(this.filePath)) {
+      try {
+        const data = fs.readJsonSync(this.filePath) as Partial<RedirectData>;
+        this.data = {
+          redirects: data.redirects ?? [],
+          removed: data.removed ?? [],
+        };
+      } catch (e) {
+        logDebug("Error loading redirects.", (e as Error).message);
+        // ignore, we'll just start over
+      }
+    }
+  }
+
+  public save(): void {
+    if (!this.data.redirects.length && !this.data.removed.length) {
+      return; // don't bother people who never change a slug
+    }
+    fs.writeJsonSync(this.filePath, this.data, { spaces: 2 });
+    verbose(`Redirects saved to: ${this.filePath}`);
+  }
+
+  public get redirects(): Redirect[] {
+    return this.data.redirects;
+  }
+
+  public get removed(): RemovedPage[] {
+    return this.data.removed;
+  }
+
+  public pageMoved(from: string, to: string): void {
+    // urls that used to go to `from` now go straight to `to`
+    for (const redirect of this.data.redirects) {
+      if (redirect.to === from) redirect.to = to;
+    }
+    this.data.redirects = [
+      ...this.data.redirects.filter(r => r.from !== from),
+      { from, to },
+    ].filter(r => r.from !== r.to); // e.g. when a page gets an old slug back
+  }
+
+  public pageRemoved(pageId: string, from: string): void {
+    // older urls of the page are gone, too
+    const urls = [
+      ...this.data.redirects.filter(r => r.to === from).map(r => r.from),
+      from,
+    ];
+    this.data.redirects = this.data.redirects.filter(r => r.to !== from);
+    this.data.removed = [
+      ...this.data.removed.filter(r => !urls.includes(r.from)),
+      ...urls.map(url => ({ from: url, pageId })),
+    ];
+  }
+
+  // A page is published at this url, so it can't be redirected, and it hasn't been removed.
+  public pageIsAt(url: string): void {
+    this.data.redirects = this.data.redirects.filter(r => r.from !== url);
+    this.data.removed = this.data.removed.filter(r => r.from !== url);
+  }
+}
@@ -0,0 +1,121 @@
+import * as fs from "fs-extra";
+import { NotionPage } from "./NotionPage";
+import { IDocuNotionContextPageInfo } from "./plugins/pluginTypes";
+import { verbose } from "./log";
+
+export type PageOutcome =
+  | "written"
+  | "cached"
+  | "skipped-status"
+  | "skipped-scheduled"
+  | "skipped-empty"
+  | "error";
+
+export type PageReport = {
+  id: string;
+  title: string;
+  slug: string;
+  outputPath?: string;
+  outcome: PageOutcome;
+  error?: string;
+};
+
+export type ImageReport = {
+  path: string;
+  pageSlug: string;
+  action: "downloaded" | "reused";
+};
+
+export type TranslationReport = {
+  language: string;
+  files: number;
+  failures: number;
+  tokensUsed: number;
+};
+
+// Everything we want a CI system to be able to know about a run without having to parse our logs.
+// This is written out as JSON when docu-notion is given `--report <file>`.
+export class RunReport {
+  public startedAt = new Date().toISOString();
+  public finishedAt?: string;
+  public dryRun = false;
+  public counts: Record<string, number> = {};
+  public pages: PageReport[] = [];
+  public images: ImageReport[] = [];
+  public brokenLinks: { pageSlug: string; link: string }[] = [];
+  public warnings: { pageSlug?: string; message: string }[] = [];
+  public stageDurationsMs: Record<string, number> = {};
+  public translation: TranslationReport[] = [];
+
+  private stageStartTimes: Record<string, number> = {};
+
+  public startStage(stage: string): void {
+    this.stageStartTimes[stage] = Date.now();
+  }
+
+  public endStage(stage: string): void {
+    const start = this.stageStartTimes[stage];
+    if (start !== undefined) this.stageDurationsMs[stage] = Date.now() - start;
+  }
+
+  public pageOutcome(
+    page: NotionPage,
+    outcome: PageOutcome,
+    outputPath?: string,
+    error?: string
+  ): void {
+    this.pages.push({
+      id: page.pageId,
+      title: page.nameOrTitle,
+      slug: page.slug,
+      outputPath,
+      outcome,
+      error,
+    });
+  }
+
+  public imageOutcome(
+    pageInfo: IDocuNotionContextPageInfo,
+    path: string,
+    action: "downloaded" | "reused"
+  ): void {
+    this.images.push({ path, pageSlug: pageInfo.slug, action });
+  }
+
+  public brokenLink(pageInfo: IDocuNotionContextPageInfo, link: string): void {
+    this.brokenLinks.push({ pageSlug: pageInfo.slug, link });
+  }
+
+  public warning(
+    pageInfo: IDocuNotionContextPageInfo | undefined,
+    message: string
+  ): void {
+    this.warnings.push({ pageSlug: pageInfo?.slug, message });
+  }
+
+  public translationResults(report: TranslationReport): void {
+    this.translation.push(report);
+  }
+
+  public write(path: string, counts: Record<string, number>): void {
+    this.finishedAt = new Date().toISOString();
+    this.counts = { ...counts };
+    fs.writeJsonSync(
+      path,
+      {
+        startedAt: this.startedAt,
+        finishedAt: this.finishedAt,
+        dryRun: this.dryRun,
+        counts: this.counts,
+        stageDurationsMs: this.stageDurationsMs,
+        pages: this.pages,
+        images: this.images,
+        brokenLinks: this.brokenLinks,
+        warnings: this.warnings,
+        translation: this.translation,
+      },
+      { spaces: 2 }
+    );
+    verbose(`Run report saved to: ${path}`);
+  }
+}
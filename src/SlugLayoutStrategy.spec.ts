@@ -0,0 +1,66 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as Path from "path";
+import { SlugLayoutStrategy } from "./SlugLayoutStrategy";
+import { makeSamplePageObject } from "./plugins/pluginTestRun";
+
+describe("SlugLayoutStrategy", () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(Path.join(os.tmpdir(), "docu-notion-"));
+  });
+  afterEach(() => {
+    fs.removeSync(dir);
+  });
+
+  function page(
+    id: string,
+    slug: string | undefined,
+    layoutContext = "",
+    order = 0
+  ) {
+    const p = makeSamplePageObject({ id, name: "Some Title", slug });
+    p.layoutContext = layoutContext;
+    p.order = order;
+    return p;
+  }
+
+  it("places files according to their slug", () => {
+    const layout = new SlugLayoutStrategy();
+    layout.setRootDirectoryForMarkdown(dir);
+    expect(
+      layout.getPathForPage(page("1", "/getting-started/install"), ".md")
+    ).toBe(`${dir}/getting-started/install.md`);
+    expect(
+      layout.getPathForPage(page("2", "my guide/what's new?"), ".md")
+    ).toBe(`${dir}/my-guide/whats-new.md`);
+    expect(layout.getPathForPage(page("3", "/"), ".md")).toBe(
+      `${dir}/index.md`
+    );
+    expect(layout.getPathForPage(page("4", undefined), ".md")).toBe(
+      `${dir}/4.md`
+    );
+  });
+
+  it("writes _category_.json where the pages of a level ended up", () => {
+    const layout = new SlugLayoutStrategy();
+    layout.setRootDirectoryForMarkdown(dir);
+    const guides = layout.newLevel(dir, 2, "", "Guides");
+    const mixed = layout.newLevel(dir, 3, "", "Mixed");
+    const pages = [
+      page("1", "/guides/install", guides, 0),
+      page("2", "/guides/upgrade", guides, 1),
+      page("3", "/a/one", mixed, 0),
+      page("4", "/b/two", mixed, 1),
+    ];
+    fs.mkdirsSync(Path.join(dir, "guides"));
+    fs.mkdirsSync(Path.join(dir, "a"));
+
+    layout.finishPull(pages);
+
+    expect(
+      fs.readJsonSync(Path.join(dir, "guides", "_category_.json"))
+    ).toEqual({ position: 2, label: "Guides" });
+    expect(fs.existsSync(Path.join(dir, "a", "_category_.json"))).toBe(false);
+  });
+});
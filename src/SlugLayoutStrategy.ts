@@ -0,0 +1,116 @@
+import * as fs from "fs-extra";
+import * as Path from "path";
+import sanitize from "sanitize-filename";
+import { LayoutStrategy } from "./LayoutStrategy";
+import { verbose } from "./log";
+import { NotionPage } from "./NotionPage";
+import { CategoryMetadata } from "./CategoryMetadata";
+
+// This strategy places each file according to the Slug of its page, so a page with the slug
+// "/getting-started/install" ends up in docs/getting-started/install.md. Renaming a page or a
+// level in Notion therefore doesn't move any file, which matters for translation tools like
+// Crowdin that map files by their path. Pages without a slug are named for their Notion page id.
+
+// The outline no longer decides the directories, but we still want its labels and ordering in
+// the sidebar. So at the end of the pull, for each level whose pages all landed in the same
+// directory, we write a _category_.json there.
+
+export class SlugLayoutStrategy extends LayoutStrategy {
+  private levels: Array<{
+    context: string;
+    label: string;
+    order: number;
+    category: CategoryMetadata;
+  }> = [];
+
+  public setRootDirectoryForMarkdown(markdownOutputPath: string): void {
+    super.setRootDirectoryForMarkdown(markdownOutputPath);
+    this.levels = []; // we may be used for more than one pull
+  }
+
+  public newLevel(
+    rootDir: string,
+    order: number,
+    context: string,
+    levelLabel: string,
+    category: CategoryMetadata = {}
+  ): string {
+    // We don't know the directory of this level until we see where its pages go.
+    const newContext = context + "/" + levelLabel;
+    this.levels.push({
+      context: newContext,
+      label: levelLabel,
+      order,
+      category,
+    });
+    return newContext;
+  }
+
+  public getPathForPage(page: NotionPage, extensionWithDot: string): string {
+    const slug = page.getPlainTextProperty(page.propertyNames.slug, "").trim();
+    if (!slug) {
+      return this.rootDirectory + "/" + page.pageId + extensionWithDot;
+    }
+    const segments = slug
+      .split("/")
+      .map(segment =>
+        sanitize(segment)
+          .replaceAll(" ", "-")
+          // crowdin complains about quotes in file names
+          .replaceAll("'", "")
+      )
+      .filter(segment => segment.length > 0);
+    // the slug "/" is the home page
+    if (!segments.length) segments.push("index");
+    return this.rootDirectory + "/" + segments.join("/") + extensionWithDot;
+  }
+
+  public finishPull(publishedPages: NotionPage[]): void {
+    for (const level of this.levels) {
+      const pagesOfLevel = publishedPages.filter(
+        page => page.layoutContext === level.context
+      );
+      // the landing page of the level, if any, can be wherever its slug puts it
+      const landingPage = pagesOfLevel.find(page => page.isCategoryIndex);
+      const directories = new Set(
+        pagesOfLevel
+          .filter(page => page !== landingPage)
+          .map(page => Path.dirname(this.getPathForPage(page, ".md")))
+      );
+      if (directories.size !== 1) {
+        if (directories.size > 1) {
+          verbose(
+            `The pages of "${level.label}" are in more than one directory, so it gets no _category_.json`
+          );
+        }
+        continue;
+      }
+      const [directory] = directories;
+      if (Path.resolve(directory) === Path.resolve(this.rootDirectory)) {
+        continue; // the root directory is not a category
+      }
+      const path = directory + "/_category_.json";
+      if (this.dryRun) {
+        verbose(`would write ${path}`);
+        continue;
+      }
+      verbose(`writing ${path}`);
+      const data: CategoryMetadata = {
+        position: level.order,
+        label: level.label,
+        ...level.category,
+      };
+      if (landingPage) {
+        data.link = { type: "doc", id: this.getDocId(landingPage) };
+      }
+      fs.writeFileSync(path, JSON.stringify(data, null, 2) + "\n");
+    }
+  }
+
+  // Docusaurus identifies a doc by its path in the docs directory, without the extension
+  private getDocId(page: NotionPage): string {
+    return Path.relative(this.rootDirectory, this.getPathForPage(page, ""))
+      .split(Path.sep)
+      .join("/");
+  }
+}
@@ -0,0 +1,91 @@
+import { NotionPage } from "./NotionPage";
+import { parseStatusFilter } from "./StatusFilter";
+import { makeSamplePageObject } from "./plugins/pluginTestRun";
+
+const draft = makeSamplePageObject({
+  properties: {
+    Status: { type: "select", select: { name: "Draft" } },
+  },
+});
+const ready = makeSamplePageObject({
+  properties: {
+    Status: { type: "status", status: { name: "Ready" } },
+    Audience: {
+      type: "multi_select",
+      multi_select: [{ name: "public" }, { name: "partners" }],
+    },
+  },
+});
+const published = makeSamplePageObject({
+  properties: {
+    Status: { type: "select", select: { name: "Publish" } },
+    Audience: { type: "multi_select", multi_select: [{ name: "internal" }] },
+    Published: { type: "checkbox", checkbox: true },
+  },
+});
+
+function matching(expression: string): NotionPage[] {
+  const filter = parseStatusFilter(expression);
+  return [draft, ready, published].filter(filter);
+}
+
+describe("parseStatusFilter", () => {
+  it("matches a single status, of either a select or a status property", () => {
+    expect(matching("Publish")).toEqual([published]);
+    expect(matching("Ready")).toEqual([ready]);
+  });
+
+  it("matches any of a list of statuses", () => {
+    expect(matching("Publish, Ready")).toEqual([ready, published]);
+  });
+
+  it("matches everything but a negated status", () => {
+    expect(matching("!Draft")).toEqual([ready, published]);
+  });
+
+  it("matches other properties, requiring every property to match", () => {
+    expect(matching("Audience=public")).toEqual([ready]);
+    expect(matching("Audience!=internal")).toEqual([draft, ready]);
+    expect(matching("Publish,Ready,Audience=internal")).toEqual([published]);
+  });
+
+  it("matches a checkbox by its name", () => {
+    expect(matching("Published")).toEqual([published]);
+    expect(matching("!Published")).toEqual([draft, ready]);
+    expect(matching("Published=false")).toEqual([]);
+  });
+
+  it("matches everything with *, and nothing when empty", () => {
+    expect(matching("*")).toEqual([draft, ready, published]);
+    expect(matching("")).toEqual([]);
+  });
+
+  it("lets a draft or unlisted status stand in for the status, but not for other properties", () => {
+    const hidden = makeSamplePageObject({
+      properties: {
+        Status: { type: "select", select: { name: "Hidden" } },
+        Audience: {
+          type: "multi_select",
+          multi_select: [{ name: "internal" }],
+        },
+      },
+    });
+    const options = { unlistedStatus: ["Hidden"] };
+    expect(parseStatusFilter("Publish", options)(hidden)).toBe(true);
+    expect(parseStatusFilter("Publish", {})(hidden)).toBe(false);
+    expect(parseStatusFilter("Publish,Audience=public", options)(hidden)).toBe(
+      false
+    );
+    expect(
+      parseStatusFilter("Publish,Audience=internal", options)(hidden)
+    ).toBe(true);
+  });
+
+  it("complains about expressions it can't make sense of", () => {
+    expect(() => parseStatusFilter("Publish,,Ready")).toThrow("empty term");
+    expect(() => parseStatusFilter("=public")).toThrow("Property=value");
+    expect(() => parseStatusFilter("!Audience=public")).toThrow(
+      "Property=value"
+    );
+  });
+});
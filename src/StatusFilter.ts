@@ -0,0 +1,140 @@
+import { NotionPage } from "./NotionPage";
+import { DocuNotionOptions } from "./pull";
+
+// Decides whether a database page is published, i.e. whether it matches --status-tag (or the
+// statusTag of a target). The expression is a comma-separated list of terms:
+// * "Publish" - the status is Publish
+// * "!Draft" - the status is not Draft
+// * "Audience=public", "Audience!=internal" - the same, for any other property. For a multi-select,
+//   "=" means one of its options is this one. For a checkbox, compare with "true" or "false".
+// * "Published", "!Published" - if the page has a checkbox property by this name, whether it is checked
+// * "*" - every page
+// Terms about the same property are alternatives ("Publish,Ready" means either one), except that every
+// negated term must hold. Terms about different properties must all hold.
+// A page with a draft or unlisted status (see getVisibility()) passes the terms about the status, but
+// must still pass the others, e.g. "Audience=public".
+export type StatusFilter = (page: NotionPage) => boolean;
+
+type VisibilityOptions = Pick<
+  DocuNotionOptions,
+  "draftStatus" | "unlistedStatus"
+>;
+
+type Term = {
+  // undefined means the status, unless the page has a checkbox property named `value`
+  property?: string;
+  value: string;
+  negated: boolean;
+};
+
+// Throws if the expression doesn't make sense, so that we can complain before pulling anything.
+export function parseStatusFilter(
+  expression: string,
+  visibilityOptions: VisibilityOptions = {}
+): StatusFilter {
+  if (expression.trim() === "*") return () => true;
+  // as before there were expressions, no page has an empty status
+  if (!expression.trim()) return () => false;
+  const terms = expression.split(",").map(parseTerm);
+  return (page: NotionPage) => {
+    // for each property, whether any of the (not negated) terms about it holds
+    const alternatives = new Map<string, boolean>();
+    for (const term of terms) {
+      const { property, matches } = evaluate(
+        page,
+        term,
+        !!getVisibility(visibilityOptions, page)
+      );
+      if (term.negated) {
+        if (!matches) return false;
+      } else {
+        alternatives.set(property, !!alternatives.get(property) || matches);
+      }
+    }
+    return [...alternatives.values()].every(matches => matches);
+  };
+}
+
+function parseTerm(text: string): Term {
+  const term = text.trim();
+  const match = /^([^!=]*?)\s*(!?=)\s*(.*)$/.exec(term);
+  if (match || term.includes("=")) {
+    const [, property, operator, value] = match ?? [];
+    if (!property || !value) {
+      throw new Error(
+        `The status filter term "${term}" should look like "Property=value".`
+      );
+    }
+    return { property, value, negated: operator === "!=" };
+  }
+  const negated = term.startsWith("!");
+  const value = (negated ? term.slice(1) : term).trim();
+  if (!value) {
+    throw new Error(
+      `The status filter has an empty term in "${text}". Separate terms with single commas.`
+    );
+  }
+  return { value, negated };
+}
+
+function evaluate(
+  page: NotionPage,
+  term: Term,
+  hasVisibilityStatus: boolean
+): { property: string; matches: boolean } {
+  let property: string;
+  let matches: boolean;
+  if (!term.property && page.getPropertyType(term.value) === "checkbox") {
+    property = term.value;
+    matches = page.getCheckboxProperty(term.value) === true;
+  } else if (!term.property) {
+    property = page.propertyNames.status;
+    matches = page.status === term.value;
+  } else {
+    property = term.property;
+    matches = getValues(page, term.property).includes(term.value);
+  }
+  if (term.negated) return { property, matches: !matches };
+  return {
+    property,
+    matches:
+      matches ||
+      (hasVisibilityStatus && property === page.propertyNames.status),
+  };
+}
+
+// the values of the property, as text, to compare with the value in a term
+function getValues(page: NotionPage, property: string): string[] {
+  switch (page.getPropertyType(property)) {
+    case "select":
+      return [page.getSelectProperty(property) ?? ""];
+    case "status":
+      return [page.getStatusProperty(property) ?? ""];
+    case "multi_select":
+      return page.getMultiSelectProperty(property)?.split(",") ?? [];
+    case "checkbox":
+      return [String(page.getCheckboxProperty(property) ?? false)];
+    case "number":
+      return [String(page.getNumberProperty(property) ?? "")];
+    case "formula":
+      return [String(page.getFormulaProperty(property) ?? "")];
+    case undefined:
+      return [];
+    default:
+      return [page.getPlainTextProperty(property, "")];
+  }
+}
+
+// Pages with one of the --draft-status or --unlisted-status statuses are published as if their status
+// matched the status filter, but with `draft: true` (only shown by `docusaurus start`) or `unlisted: true`
+// (built, but left out of the sidebar and search) in their frontmatter.
+export function getVisibility(
+  options: VisibilityOptions,
+  page: NotionPage
+): "draft" | "unlisted" | undefined {
+  const { status } = page;
+  if (!status) return undefined;
+  if (options.draftStatus?.includes(status)) return "draft";
+  if (options.unlistedStatus?.includes(status)) return "unlisted";
+  return undefined;
+}
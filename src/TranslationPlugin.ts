@@ -14,35 +14,48 @@ export interface TranslationPluginOptions {
   preserveCodeBlocks: boolean;
   preserveFrontmatter: boolean;
   preserveLinks: boolean;
-  outputDir?: string; // Custom output directory, defaults to i18n/{locale}/docusaurus-plugin-content-docs/current/
+  outputDir?: string; // Custom output directory, defaults to i18n/{locale}/docusaurus-plugin-content-docs/current/ (or docusaurus-plugin-content-docs-{docsPluginId}/current/)
+}
+
+export interface LanguageTranslationResults {
+  targetLanguage: string;
+  results: TranslationResult[];
 }
 
 export class TranslationPlugin {
   private options: TranslationPluginOptions;
   private docuNotionOptions: DocuNotionOptions;
+  private docsPluginId?: string;
 
-  constructor(options: TranslationPluginOptions, docuNotionOptions: DocuNotionOptions) {
+  /**
+   * @param docsPluginId the id of the Docusaurus docs plugin that serves the markdown, if it isn't the default one
+   */
+  constructor(options: TranslationPluginOptions, docuNotionOptions: DocuNotionOptions, docsPluginId?: string) {
     this.options = options;
     this.docuNotionOptions = docuNotionOptions;
+    this.docsPluginId = docsPluginId;
   }
 
   /**
-   * Main translation workflow - translate all generated markdown files
+   * Main translation workflow - translate all generated markdown files.
+   * Returns the results for each target language, e.g. so that token usage can be reported.
    */
-  async translateGeneratedContent(): Promise<void> {
+  async translateGeneratedContent(): Promise<LanguageTranslationResults[]> {
+    const allResults: LanguageTranslationResults[] = [];
+
     if (!this.options.enabled) {
       info('Translation plugin is disabled, skipping translation');
-      return;
+      return allResults;
     }
 
     if (!this.options.apiKey) {
       warning('Translation API key not provided, skipping translation');
-      return;
+      return allResults;
     }
 
     if (this.options.targetLanguages.length === 0) {
       warning('No target languages specified, skipping translation');
-      return;
+      return allResults;
     }
 
     info(`Starting translation from ${this.options.sourceLanguage} to: ${this.options.targetLanguages.join(', ')}`);
@@ -51,21 +64,23 @@ export class TranslationPlugin {
     
     if (!await fs.pathExists(sourceDir)) {
       error(`Source directory does not exist: ${sourceDir}`);
-      return;
+      return allResults;
     }
 
     // Translate to each target language
     for (const targetLanguage of this.options.targetLanguages) {
-      await this.translateToLanguage(sourceDir, targetLanguage);
+      const results = await this.translateToLanguage(sourceDir, targetLanguage);
+      allResults.push({ targetLanguage, results });
     }
 
     info('Translation process completed');
+    return allResults;
   }
 
   /**
    * Translate all content to a specific target language
    */
-  private async translateToLanguage(sourceDir: string, targetLanguage: string): Promise<void> {
+  private async translateToLanguage(sourceDir: string, targetLanguage: string): Promise<TranslationResult[]> {
     try {
       info(`Translating to ${targetLanguage}...`);
 
@@ -93,9 +108,10 @@ export class TranslationPlugin {
       
       // Report results
       this.reportTranslationResults(results, targetLanguage);
-      
+      return results;
     } catch (err) {
       error(`Translation to ${targetLanguage} failed: ${err}`);
+      return [];
     }
   }
 
@@ -104,12 +120,15 @@ export class TranslationPlugin {
    */
   private getTargetDirectory(targetLanguage: string): string {
     if (this.options.outputDir) {
-      return path.join(this.options.outputDir, targetLanguage);
+      return path.join(this.options.outputDir, targetLanguage, this.docsPluginId ?? '');
     }
 
-    // Default Docusaurus i18n structure
+    // Default Docusaurus i18n structure, where each docs plugin other than the default one has its own directory
     const workspaceRoot = path.dirname(this.docuNotionOptions.markdownOutputPath);
-    return path.join(workspaceRoot, 'i18n', targetLanguage, 'docusaurus-plugin-content-docs', 'current');
+    const pluginDirectory = this.docsPluginId
+      ? `docusaurus-plugin-content-docs-${this.docsPluginId}`
+      : 'docusaurus-plugin-content-docs';
+    return path.join(workspaceRoot, 'i18n', targetLanguage, pluginDirectory, 'current');
   }
 
   /**
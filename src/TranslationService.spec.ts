@@ -102,6 +102,27 @@ describe('TranslationService', () => {
     expect(result.error).toBe('Unsupported translation provider: invalid-provider');
   });
 
+  it('should translate only the markdown files of a directory', async () => {
+    const service = new TranslationService(mockOptions);
+    const file = (name: string) => ({ name, isFile: () => true, isDirectory: () => false });
+    vi.mocked(fs.readdir).mockResolvedValue([
+      file('intro.md'),
+      file('api.mdx'),
+      file('.docu-notion-cache.json'),
+      file('redirects.json'),
+      file('sidebars.json'),
+    ] as any);
+    vi.mocked(fs.readFile).mockResolvedValue('# Hello' as any);
+
+    const results = await service.translateDirectory('/test/docs', '/test/i18n/de');
+
+    expect(results.length).toBe(2);
+    expect(vi.mocked(fs.writeFile).mock.calls.map(call => call[0])).toEqual([
+      '/test/i18n/de/intro.md',
+      '/test/i18n/de/api.mdx',
+    ]);
+  });
+
   it('should estimate costs correctly', () => {
     const service = new TranslationService(mockOptions);
     
@@ -208,6 +229,14 @@ describe('TranslationPlugin', () => {
     
     expect(targetDir).toBe('/test/i18n/de/docusaurus-plugin-content-docs/current');
   });
+
+  it('should put the translations of another docs plugin in its own directory', () => {
+    const plugin = new TranslationPlugin(mockTranslationOptions, mockDocuNotionOptions, 'dev');
+
+    expect((plugin as any).getTargetDirectory('de')).toBe('/test/i18n/de/docusaurus-plugin-content-docs-dev/current');
+    const withOutputDir = new TranslationPlugin({ ...mockTranslationOptions, outputDir: '/out' }, mockDocuNotionOptions, 'dev');
+    expect((withOutputDir as any).getTargetDirectory('de')).toBe('/out/de/dev');
+  });
 });
 
 describe('TranslationService prompt building', () => {
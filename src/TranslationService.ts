@@ -115,12 +115,8 @@ export class TranslationService {
           // Translate markdown files
           const result = await this.translateFile(sourcePath, targetPath);
           results.push(result);
-        } else if (item.isFile()) {
-          // Copy non-markdown files as-is
-          await fs.ensureDir(path.dirname(targetPath));
-          await fs.copy(sourcePath, targetPath);
-          info(`Copied non-markdown file: ${targetPath}`);
         }
+        // Other files, like docu-notion's cache, redirects.json, or sidebars.json, are not content to translate.
       }
     } catch (err) {
       error(`Directory translation failed: ${err}`);
@@ -1,13 +1,22 @@
 import * as fs from "fs-extra";
 import * as Path from "path";
 import { verbose } from "./log";
+import { DryRunPlan } from "./DryRunPlan";
 
 export enum AssetType {
   Image = "image",
   Video = "video",
 }
 
-export function writeAsset(path: string, buffer: Buffer): void {
+export function writeAsset(
+  path: string,
+  buffer: Buffer,
+  dryRunPlan?: DryRunPlan
+): void {
+  if (dryRunPlan) {
+    dryRunPlan.assetWouldBeWritten(path);
+    return;
+  }
   // Note: it's tempting to not spend time writing this out if we already have
   // it from a previous run. But we don't really know it's the same. A) it
   // could just have the same name, B) it could have been previously
@@ -0,0 +1,41 @@
+import { findCollisions } from "./collisions";
+import { HierarchicalNamedLayoutStrategy } from "./HierarchicalNamedLayoutStrategy";
+import { makeSamplePageObject } from "./plugins/pluginTestRun";
+
+function findCollisionsOf(pages: ReturnType<typeof makeSamplePageObject>[]) {
+  const layoutStrategy = new HierarchicalNamedLayoutStrategy();
+  layoutStrategy.setRootDirectoryForMarkdown("/docs");
+  pages.forEach(p => (p.layoutContext = ""));
+  return findCollisions([{ pages, layoutStrategy }]);
+}
+
+describe("findCollisions", () => {
+  it("finds slugs that only differ in characters that get replaced", () => {
+    const collisions = findCollisionsOf([
+      makeSamplePageObject({ id: "1", slug: "foo?bar" }),
+      makeSamplePageObject({ id: "2", slug: "foo-bar" }),
+      makeSamplePageObject({ id: "3", slug: "other" }),
+    ]);
+    // both the slug and the file (which is named for the slug) are the same
+    expect(collisions).toHaveLength(2);
+    expect(collisions[0]).toContain('"/foo-bar"');
+    expect(collisions[0]).toContain("(1) and");
+    expect(collisions[0]).toContain("(2)");
+    expect(collisions[1]).toContain("/docs/foo-bar.md");
+  });
+
+  it("finds files whose names only differ by case", () => {
+    const collisions = findCollisionsOf([
+      makeSamplePageObject({ id: "1", name: "Intro" }),
+      makeSamplePageObject({ id: "2", name: "intro" }),
+    ]);
+    expect(collisions).toEqual([
+      'The pages "Intro" (1) and "intro" (2) would be written to the same file, /docs/Intro.md, so one would overwrite the other.',
+    ]);
+  });
+
+  it("doesn't mind a page that is in the outline twice", () => {
+    const page = makeSamplePageObject({ id: "1", slug: "foo" });
+    expect(findCollisionsOf([page, page])).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+import { NotionPage } from "./NotionPage";
+import { IDocuNotionLinkTarget } from "./plugins/pluginTypes";
+
+// Finds different pages that would end up with the same url or the same file, which would otherwise
+// go unnoticed: one page would silently overwrite the other. This can happen because slugs are
+// cleaned up (e.g. "foo?bar" and "foo-bar" both become "/foo-bar") and so are file names (e.g. two
+// titles that only differ by a "?"). File names are compared ignoring case, because on Windows and
+// macOS "Intro.md" and "intro.md" are the same file.
+// `targets` are the pages that will be published, for each target. Returns a message for each collision.
+export function findCollisions(targets: IDocuNotionLinkTarget[]): string[] {
+  const bySlug = new Map<string, NotionPage[]>();
+  const byPath = new Map<string, NotionPage[]>();
+  const actualPaths = new Map<string, string>();
+  for (const target of targets) {
+    for (const page of target.pages) {
+      // urls only collide within the same docs route
+      add(bySlug, (target.routeBasePath ?? "") + " " + page.slug, page);
+      const path = target.layoutStrategy.getPathForPage(page, ".md");
+      add(byPath, path.toLowerCase(), page);
+      if (!actualPaths.has(path.toLowerCase())) {
+        actualPaths.set(path.toLowerCase(), path);
+      }
+    }
+  }
+  return [
+    ...[...bySlug.values()]
+      .filter(pages => pages.length > 1)
+      .map(
+        pages =>
+          `${describe(pages)} have the same slug, "${
+            pages[0].slug
+          }", so only one of them can be at that url.`
+      ),
+    ...[...byPath.entries()]
+      .filter(([, pages]) => pages.length > 1)
+      .map(
+        ([key, pages]) =>
+          `${describe(pages)} would be written to the same file, ${
+            actualPaths.get(key) ?? key
+          }, so one would overwrite the other.`
+      ),
+  ];
+}
+
+// the same page may be in the outline more than once, which is fine
+function add(map: Map<string, NotionPage[]>, key: string, page: NotionPage) {
+  const pages = map.get(key) ?? [];
+  if (!pages.some(p => p.pageId === page.pageId)) pages.push(page);
+  map.set(key, pages);
+}
+
+function describe(pages: NotionPage[]): string {
+  return (
+    "The pages " +
+    pages.map(p => `"${p.nameOrTitle}" (${p.pageId})`).join(" and ")
+  );
+}
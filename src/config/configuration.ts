@@ -3,10 +3,38 @@ import defaultConfig from "./default.docunotion.config";
 import { error, verbose } from "../log";
 import { TypeScriptLoader } from "cosmiconfig-typescript-loader";
 import { IPlugin } from "../plugins/pluginTypes";
+import { LayoutStrategy } from "../LayoutStrategy";
+import { NotionPropertyNames } from "../NotionPage";
 import { exit } from "process";
 
+// One Notion outline (or database) and where its pages go. Give several of these to publish more
+// than one set of docs in a single run, e.g. a user guide and a developer guide, each going to
+// its own Docusaurus docs plugin.
+export type IDocuNotionTarget = {
+  rootPage?: string;
+  database?: string;
+  markdownOutputPath: string;
+  // which database pages to publish, in the same form as --status-tag, e.g. "Publish,Audience=public".
+  // If not given, the --status-tag option is used.
+  statusTag?: string;
+  // the routeBasePath of the docs plugin serving markdownOutputPath, e.g. "/dev".
+  // Links to pages of this target from other targets start with it.
+  routeBasePath?: string;
+  // the id of the docs plugin serving markdownOutputPath, if it isn't the default one. Translations of
+  // this target go to i18n/<language>/docusaurus-plugin-content-docs-<docsPluginId>/current.
+  docsPluginId?: string;
+};
+
 export type IDocuNotionConfig = {
   plugins: IPlugin[];
+  // if given, these are pulled instead of the --root-page, --database, and --markdown-output-path options
+  targets?: IDocuNotionTarget[];
+  // Decides where files go and what they are named (unless --layout is given). Give a function that
+  // makes one if you have more than one target, because each target needs its own.
+  layoutStrategy?: LayoutStrategy | (() => LayoutStrategy);
+  // The names of the properties of your database pages, if they aren't the English ones,
+  // e.g. { name: "Titre", status: "Statut" }. They are checked against the first database page.
+  propertyNames?: Partial<NotionPropertyNames>;
 };
 
 // read the plugins from the config file
@@ -27,29 +55,47 @@ export async function loadConfigAsync(): Promise<IDocuNotionConfig> {
       verbose(`Did not find configuration file, using defaults.`);
     }
 
-    const pluginsWithInitializers = found?.config?.plugins?.filter(
-      (p: IPlugin) => p.init !== undefined
-    );
-    const initializers = pluginsWithInitializers?.map(
-      (p: IPlugin) => () => p!.init!(p)
-    );
-
-    await Promise.all(initializers || []);
-
-    found?.config?.plugins?.forEach(async (plugin: IPlugin) => {
-      if (plugin.init !== undefined) {
-        verbose(`Initializing plugin ${plugin.name}...`);
-        await plugin.init(plugin);
-      }
-    });
-    // for now, all we have is plugins
-    config = {
-      plugins: defaultConfig.plugins.concat(found?.config?.plugins || []),
-    };
+    config = await prepareConfigAsync(found?.config);
   } catch (e: any) {
     error(e.message);
     exit(1);
   }
+  return config;
+}
+
+// Adds the standard plugins in front of the ones in the given configuration and lets the
+// plugins initialize themselves. Use this if you are calling createDocuNotion() yourself
+// instead of having a docu-notion.config.ts.
+export async function prepareConfigAsync(
+  userConfig?: Partial<IDocuNotionConfig>
+): Promise<IDocuNotionConfig> {
+  for (const plugin of userConfig?.plugins ?? []) {
+    if (plugin.init !== undefined) {
+      verbose(`Initializing plugin ${plugin.name}...`);
+      await plugin.init(plugin);
+    }
+  }
+  const config: IDocuNotionConfig = {
+    plugins: defaultConfig.plugins.concat(userConfig?.plugins || []),
+    targets: userConfig?.targets,
+    layoutStrategy: userConfig?.layoutStrategy,
+    propertyNames: userConfig?.propertyNames,
+  };
+  checkConfig(config);
   verbose(`Active plugins: [${config.plugins.map(p => p.name).join(", ")}]`);
   return config;
 }
+
+// Throws if the config can't work. Each pull checks this too, because the config given to
+// createDocuNotion() may not have come from prepareConfigAsync().
+export function checkConfig(config: IDocuNotionConfig): void {
+  // each target needs its own layout strategy, because it keeps track of the files of that target
+  if (
+    config.layoutStrategy instanceof LayoutStrategy &&
+    (config.targets?.length ?? 0) > 1
+  ) {
+    throw new Error(
+      "With more than one target, the layoutStrategy in the config must be a function that makes a new LayoutStrategy each time it is called."
+    );
+  }
+}
@@ -9,6 +9,7 @@ import { standardHeadingTransformer } from "../plugins/HeadingTransformer";
 import { standardTableTransformer } from "../plugins/TableTransformer";
 import { standardVideoTransformer } from "../plugins/VideoTransformer";
 import { standardExternalLinkConversion } from "../plugins/externalLinks";
+import { standardFrontmatter } from "../plugins/FrontmatterBuilder";
 import { IDocuNotionConfig } from "./configuration";
 
 const defaultConfig: IDocuNotionConfig = {
@@ -33,6 +34,9 @@ const defaultConfig: IDocuNotionConfig = {
     // Regexps plus javascript `import`s that operate on the Markdown output
     imgurGifEmbed,
     gifEmbed,
+
+    // Builds the frontmatter of each page
+    standardFrontmatter,
   ],
 };
 
@@ -18,10 +18,14 @@ import { writeAsset } from "./assets";
 // 3) read the caption and if there are localized images, get those too
 // 4) prepare for localized documents, which need a copy of every image
 
-let existingImagesNotSeenYetInPull: string[] = [];
-let imageOutputPath = ""; // default to putting in the same directory as the document referring to it.
-let imagePrefix = ""; // default to "./"
-let locales: string[];
+// What we keep track of about images during a pull. Each pull has its own, kept in its
+// session and handed to the image transformer in the context of the page.
+export type ImageHandling = {
+  outputPath: string; // "" means putting it in the same directory as the document referring to it.
+  prefix: string; // "" means "./"
+  locales: string[];
+  existingImagesNotSeenYetInPull: string[];
+};
 
 // we parse a notion image and its caption into what we need, which includes any urls to localized versions
 // of the image that may be embedded in the caption.
@@ -52,21 +56,41 @@ export type ImageSet = {
 export async function initImageHandling(
   prefix: string,
   outputPath: string,
-  incomingLocales: string[]
-): Promise<void> {
-  // If they gave us a trailing slash, remove it because we add it back later.
-  // Note that it's up to the caller to have a *leading* slash or not.
-  imagePrefix = prefix.replace(/\/$/, "");
-  imageOutputPath = outputPath;
-  locales = incomingLocales;
+  incomingLocales: string[],
+  dryRun = false,
+  removeUnusedImages = false
+): Promise<ImageHandling> {
+  const images: ImageHandling = {
+    // If they gave us a trailing slash, remove it because we add it back later.
+    // Note that it's up to the caller to have a *leading* slash or not.
+    prefix: prefix.replace(/\/$/, ""),
+    outputPath,
+    locales: incomingLocales,
+    existingImagesNotSeenYetInPull: [],
+  };
 
   // Currently we don't delete the image directory, because if an image
   // changes, it gets a new id. This way can then prevent downloading
-  // and image after the 1st time. The downside is currently we don't
-  // have the smarts to remove unused images.
-  if (imageOutputPath) {
-    await fs.mkdir(imageOutputPath, { recursive: true });
+  // and image after the 1st time. The directory may also hold images that
+  // aren't ours, so only if asked (--remove-unused-images) do we note the
+  // images already there, so that the ones no page uses anymore can be
+  // removed at the end. (Images kept next to the markdown are not tracked.)
+  if (removeUnusedImages && outputPath && fs.existsSync(outputPath)) {
+    images.existingImagesNotSeenYetInPull = fs
+      .readdirSync(outputPath)
+      .map(name => Path.posix.join(outputPath, name))
+      .filter(p => isImageFile(p));
+  } else if (outputPath && !dryRun && !fs.existsSync(outputPath)) {
+    await fs.mkdir(outputPath, { recursive: true });
   }
+  return images;
+}
+
+function isImageFile(path: string): boolean {
+  return (
+    fs.statSync(path).isFile() &&
+    /\.(png|jpe?g|gif|webp|svg|avif|bmp|ico|tiff?)$/i.test(path)
+  );
 }
 
 export const standardImageTransformer: IPlugin = {
@@ -112,7 +136,9 @@ async function processImageBlock(
   const imageBlock = block.image;
   logDebug("processImageBlock", JSON.stringify(imageBlock));
 
-  const imageSet = parseImageBlock(imageBlock);
+  const images = context.images;
+  if (!images) throw Error("Did you call initImageHandling()?");
+  const imageSet = parseImageBlock(imageBlock, images.locales);
   imageSet.pageInfo = context.pageInfo;
 
   // First, try to determine the filename without downloading
@@ -124,20 +150,21 @@ async function processImageBlock(
       context.options,
       imageSet,
       block.id,
-      imageOutputPath,
-      imagePrefix
+      images.outputPath,
+      images.prefix
     );
     
     // Check if the primary image already exists
     if (!context.options.forceRefreshImages && imageSet.primaryFileOutputPath && fs.existsSync(imageSet.primaryFileOutputPath)) {
       verbose(`Primary image already exists, skipping download: ${imageSet.primaryFileOutputPath}`);
-      imageWasSeen(imageSet.primaryFileOutputPath);
+      imageWasSeen(images, imageSet.primaryFileOutputPath);
+      context.report?.imageOutcome(context.pageInfo, imageSet.primaryFileOutputPath, "reused");
       // We still need to process localized images, but can skip primary download
-      await saveLocalizedImages(imageSet, context);
+      await saveLocalizedImages(imageSet, context, images);
     } else {
       // Download and save as usual
       await readPrimaryImage(imageSet);
-      await saveImage(imageSet, context);
+      await saveImage(imageSet, context, images);
     }
   } else {
     // For "content-hash" mode, we need to download first to generate hash-based filename
@@ -146,10 +173,10 @@ async function processImageBlock(
       context.options,
       imageSet,
       block.id,
-      imageOutputPath,
-      imagePrefix
+      images.outputPath,
+      images.prefix
     );
-    await saveImage(imageSet, context);
+    await saveImage(imageSet, context, images);
   }
 
   // change the src to point to our copy of the image
@@ -232,7 +259,7 @@ function makeImagePersistencePlanWithoutBuffer(
 }
 
 // Helper function to handle only localized images
-async function saveLocalizedImages(imageSet: ImageSet, context: IDocuNotionContext): Promise<void> {
+async function saveLocalizedImages(imageSet: ImageSet, context: IDocuNotionContext, images: ImageHandling): Promise<void> {
   for (const localizedImage of imageSet.localizedUrls) {
     const directory = `./i18n/${
       localizedImage.iso632Code
@@ -246,7 +273,7 @@ async function saveLocalizedImages(imageSet: ImageSet, context: IDocuNotionConte
     );
 
     // Always mark the image as seen for cleanup purposes
-    imageWasSeen(newPath);
+    imageWasSeen(images, newPath);
 
     // Check if localized image already exists before downloading/saving
     if (!context.options.forceRefreshImages && fs.existsSync(newPath)) {
@@ -272,7 +299,7 @@ async function saveLocalizedImages(imageSet: ImageSet, context: IDocuNotionConte
         buffer = imageSet.primaryBuffer!;
       }
 
-      writeAsset(newPath, buffer);
+      writeAsset(newPath, buffer, context.dryRunPlan);
       verbose(`Saved localized (${localizedImage.iso632Code}) image: ${newPath}`);
     }
   }
@@ -289,24 +316,25 @@ function hashOfString(input: string): string {
   return crypto.createHash("sha256").update(input).digest("hex").substring(0, 8);
 }
 
-async function saveImage(imageSet: ImageSet, context: IDocuNotionContext): Promise<void> {
+async function saveImage(imageSet: ImageSet, context: IDocuNotionContext, images: ImageHandling): Promise<void> {
   // Save primary image
   const primaryPath = imageSet.primaryFileOutputPath!;
-  imageWasSeen(primaryPath); // Always mark as seen for cleanup purposes
+  imageWasSeen(images, primaryPath); // Always mark as seen for cleanup purposes
   
   if (!context.options.forceRefreshImages && fs.existsSync(primaryPath)) {
     verbose(`Primary image already exists, skipping: ${primaryPath}`);
+    context.report?.imageOutcome(context.pageInfo, primaryPath, "reused");
   } else {
-    writeAsset(primaryPath, imageSet.primaryBuffer!);
+    writeAsset(primaryPath, imageSet.primaryBuffer!, context.dryRunPlan);
     verbose(`Saved primary image: ${primaryPath}`);
+    context.report?.imageOutcome(context.pageInfo, primaryPath, "downloaded");
   }
 
   // Save localized images
-  await saveLocalizedImages(imageSet, context);
+  await saveLocalizedImages(imageSet, context, images);
 }
 
-export function parseImageBlock(image: any): ImageSet {
-  if (!locales) throw Error("Did you call initImageHandling()?");
+export function parseImageBlock(image: any, locales: string[]): ImageSet {
   const imageSet: ImageSet = {
     primaryUrl: "",
     caption: "",
@@ -348,14 +376,28 @@ export function parseImageBlock(image: any): ImageSet {
   return imageSet;
 }
 
-function imageWasSeen(path: string) {
-  existingImagesNotSeenYetInPull = existingImagesNotSeenYetInPull.filter(
-    p => p !== path
-  );
+function imageWasSeen(images: ImageHandling, path: string) {
+  images.existingImagesNotSeenYetInPull =
+    images.existingImagesNotSeenYetInPull.filter(p => p !== path);
+}
+
+// A page we don't convert this time (e.g. it is unchanged) keeps its old
+// markdown, so the images that markdown refers to are still in use.
+export function keepImagesUsedBy(
+  images: ImageHandling,
+  markdownPath: string
+): void {
+  if (!fs.existsSync(markdownPath)) return;
+  const markdown = fs.readFileSync(markdownPath, "utf8");
+  images.existingImagesNotSeenYetInPull =
+    images.existingImagesNotSeenYetInPull.filter(p => {
+      const name = Path.basename(p);
+      return !markdown.includes(name) && !markdown.includes(encodeURI(name));
+    });
 }
 
-export async function cleanupOldImages(): Promise<void> {
-  for (const p of existingImagesNotSeenYetInPull) {
+export async function cleanupOldImages(images: ImageHandling): Promise<void> {
+  for (const p of images.existingImagesNotSeenYetInPull) {
     verbose(`Removing old image: ${p}`);
     await fs.rm(p);
   }
@@ -2,7 +2,10 @@
 
 import { run } from "./run";
 
-run();
+// Only act as a command line tool if we are being run as one, so that we can also be used as a library.
+if (require.main === module) {
+  run();
+}
 
 // for plugins to import
 
@@ -10,5 +13,23 @@ export * as Log from "./log";
 export * from "./types";
 export * from "./config/configuration";
 export * from "./plugins/pluginTypes";
+export { frontmatterFromProperties } from "./plugins/FrontmatterBuilder";
+export type { FrontmatterPropertyMapping } from "./plugins/FrontmatterBuilder";
+
+// for using docu-notion from your own code
+export { createDocuNotion } from "./pull";
+export type {
+  DocuNotion,
+  DocuNotionOptions,
+  DocuNotionResult,
+  DocuNotionCounts,
+} from "./pull";
+export type { NotionPage, NotionPropertyNames, NotionUser } from "./NotionPage";
+// for making your own layout strategy
+export { LayoutStrategy } from "./LayoutStrategy";
+export { HierarchicalNamedLayoutStrategy } from "./HierarchicalNamedLayoutStrategy";
+export { FlatGuidLayoutStrategy } from "./FlatGuidLayoutStrategy";
+export { SlugLayoutStrategy } from "./SlugLayoutStrategy";
+export type { RunReport } from "./RunReport";
 import type { IDocuNotionConfig } from "./config/configuration";
 export type { IDocuNotionConfig };
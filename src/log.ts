@@ -1,4 +1,5 @@
 import chalk from "chalk";
+import { AsyncLocalStorage } from "async_hooks";
 chalk;
 type levels = "info" | "verbose" | "debug";
 let logLevel: levels;
@@ -10,6 +11,20 @@ export function error(s: string): void {
 }
 export function warning(s: string): void {
   console.log(chalk.hex("#FFA500")(wrapForCI(s, "warning")));
+  warningListeners.getStore()?.(s);
+}
+
+// Lets us put warnings in the report of a run (see --report), along with the page that was
+// being converted, even when they come from a plugin. Pages may be converted at the same
+// time, so each conversion has its own listener.
+const warningListeners = new AsyncLocalStorage<(s: string) => void>();
+
+// Calls `listener` with any warning logged while `fn` runs (including after it awaits something).
+export function collectWarnings<T>(
+  listener: (s: string) => void,
+  fn: () => T
+): T {
+  return warningListeners.run(listener, fn);
 }
 export function info(s: string): void {
   console.log(s);
@@ -0,0 +1,158 @@
+import { parse } from "yaml";
+import { HierarchicalNamedLayoutStrategy } from "../HierarchicalNamedLayoutStrategy";
+import { DocuNotionOptions } from "../pull";
+import { frontmatterToYaml } from "../transform";
+import {
+  frontmatterFromProperties,
+  standardFrontmatter,
+} from "./FrontmatterBuilder";
+import { IDocuNotionContext, IFrontmatter } from "./pluginTypes";
+import { makeSamplePageObject } from "./pluginTestRun";
+
+function text(value: string) {
+  return {
+    type: "rich_text",
+    rich_text: [{ type: "text", plain_text: value }],
+  };
+}
+
+async function getFrontmatterYaml(
+  name: string,
+  properties: Record<string, unknown> = {},
+  options: Partial<DocuNotionOptions> = {}
+): Promise<string> {
+  const page = makeSamplePageObject({ name, slug: "my-page" });
+  Object.assign((page.metadata as any).properties, properties);
+  const frontmatter: IFrontmatter = {};
+  await standardFrontmatter.frontmatter?.(
+    {
+      options,
+      layoutStrategy: new HierarchicalNamedLayoutStrategy(),
+    } as unknown as IDocuNotionContext,
+    page,
+    frontmatter
+  );
+  return frontmatterToYaml(frontmatter);
+}
+
+function parseFrontmatter(yaml: string): any {
+  expect(yaml.startsWith("---\n")).toBe(true);
+  expect(yaml.endsWith("---\n")).toBe(true);
+  return parse(yaml.slice(4, -4));
+}
+
+describe("frontmatter", () => {
+  it.each([
+    "Intro: the basics",
+    'The "best" way',
+    "#1 on the list",
+    "- starts with a dash",
+    "日本語のページ",
+    "Ends with a colon:",
+    "true",
+    "42",
+  ])("keeps the title %s as it is", async title => {
+    const yaml = await getFrontmatterYaml(title);
+    expect(parseFrontmatter(yaml).title).toBe(title);
+  });
+
+  it("quotes titles that would otherwise mean something else", async () => {
+    expect(await getFrontmatterYaml("Intro: the basics")).toContain(
+      'title: "Intro: the basics"\n'
+    );
+    expect(await getFrontmatterYaml("#1 on the list")).toContain(
+      'title: "#1 on the list"\n'
+    );
+  });
+
+  it("writes descriptions with quotes, arrays, and nested maps", async () => {
+    const yaml = await getFrontmatterYaml("Page", {
+      Description: text('She said "hi": twice'),
+      Keywords: {
+        type: "multi_select",
+        multi_select: [{ name: "a: b" }, { name: "#c" }],
+      },
+      "Last author": { type: "select", select: { name: "O'Brien" } },
+    });
+    const frontmatter = parseFrontmatter(yaml);
+    expect(frontmatter.description).toBe('She said "hi": twice');
+    expect(frontmatter.keywords).toEqual(["a: b", "#c"]);
+    expect(frontmatter.tags).toEqual(["a: b", "#c"]);
+    expect(frontmatter.last_update).toEqual({
+      date: "2023-01-03",
+      author: "O'Brien",
+    });
+    expect(frontmatter.slug).toBe("/my-page");
+  });
+
+  it("merges in the YAML of the Frontmatter property", async () => {
+    const frontmatter = parseFrontmatter(
+      await getFrontmatterYaml("Page", {
+        Frontmatter: text("sidebar_label: Short\nhide_title: true"),
+      })
+    );
+    expect(frontmatter.sidebar_label).toBe("Short");
+    expect(frontmatter.hide_title).toBe(true);
+    expect(frontmatter.title).toBe("Page");
+  });
+
+  it("marks pages with a draft or unlisted status", async () => {
+    const options = { draftStatus: ["Review"], unlistedStatus: ["Hidden"] };
+    const withStatus = (status: string) =>
+      getFrontmatterYaml(
+        "Page",
+        { Status: { type: "select", select: { name: status } } },
+        options
+      );
+    expect(parseFrontmatter(await withStatus("Review")).draft).toBe(true);
+    expect(parseFrontmatter(await withStatus("Hidden")).unlisted).toBe(true);
+    const published = parseFrontmatter(await withStatus("Publish"));
+    expect(published.draft).toBeUndefined();
+    expect(published.unlisted).toBeUndefined();
+  });
+
+  it("ignores a Frontmatter property that is not a map", async () => {
+    const frontmatter = parseFrontmatter(
+      await getFrontmatterYaml("Page", {
+        Frontmatter: text("just some words"),
+      })
+    );
+    expect(frontmatter.title).toBe("Page");
+    expect(Object.keys(frontmatter)).not.toContain("0");
+  });
+});
+
+describe("frontmatterFromProperties", () => {
+  it("copies the properties that the page has", async () => {
+    const page = makeSamplePageObject({});
+    Object.assign((page.metadata as any).properties, {
+      Audience: {
+        type: "multi_select",
+        multi_select: [{ name: "admins" }, { name: "developers" }],
+      },
+      Level: { type: "select", select: { name: "Advanced" } },
+      Minutes: { type: "number", number: 5 },
+      Beta: { type: "checkbox", checkbox: true },
+      Note: text(""),
+    });
+    const frontmatter: IFrontmatter = {};
+    await frontmatterFromProperties([
+      {
+        notionProperty: "Audience",
+        frontmatterKey: "audience",
+        type: "multi_select",
+      },
+      { notionProperty: "Level", frontmatterKey: "level", type: "select" },
+      { notionProperty: "Minutes", type: "number" },
+      { notionProperty: "Beta", frontmatterKey: "beta", type: "checkbox" },
+      { notionProperty: "Note", type: "text" },
+      { notionProperty: "Missing", type: "select" },
+    ]).frontmatter?.({} as IDocuNotionContext, page, frontmatter);
+    expect(frontmatter).toEqual({
+      audience: ["admins", "developers"],
+      level: "Advanced",
+      Minutes: 5,
+      beta: true,
+    });
+  });
+});
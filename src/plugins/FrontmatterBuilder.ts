@@ -0,0 +1,164 @@
+import { parse } from "yaml";
+import { warning } from "../log";
+import { NotionPage, NotionUser } from "../NotionPage";
+import { getVisibility } from "../StatusFilter";
+import { IDocuNotionContext, IFrontmatter, IPlugin } from "./pluginTypes";
+
+// The frontmatter that docu-notion has always given pages. Anything in the "Frontmatter" text
+// property of the page (as YAML) is merged in at the end, so it wins over the keys above.
+// Plugins that come after this one (e.g. frontmatterFromProperties()) run later still, so they can
+// add to all of that, change it, or remove things from it.
+export const standardFrontmatter: IPlugin = {
+  name: "standard frontmatter",
+  frontmatter: (
+    context: IDocuNotionContext,
+    page: NotionPage,
+    frontmatter: IFrontmatter
+  ) => {
+    frontmatter.title = page.nameOrTitle;
+    frontmatter.description = page.description;
+    frontmatter.sidebar_position = page.order;
+    frontmatter.slug = page.slug ?? "";
+    if (page.authors) {
+      frontmatter.authors = page.authors.split(",");
+    }
+    frontmatter.date = toDay(page.createdTime);
+    if (page.keywords) {
+      frontmatter.keywords = page.keywords.split(",");
+      frontmatter.tags = page.keywords.split(",");
+    }
+    if (page.lastauthor) {
+      frontmatter.last_update = {
+        date: toDay(page.lastEditedTime),
+        author: page.lastauthor,
+      };
+    }
+    if (page.image) {
+      frontmatter.image = page.image;
+    }
+    Object.assign(frontmatter, context.layoutStrategy.getFrontmatter(page));
+    const visibility = getVisibility(context.options, page);
+    if (visibility) {
+      frontmatter[visibility] = true;
+    }
+    Object.assign(frontmatter, parseFrontmatterProperty(page));
+  },
+};
+
+export type FrontmatterPropertyMapping = {
+  // the name of the property in Notion, e.g. "Audience"
+  notionProperty: string;
+  // the key in the frontmatter, e.g. "audience". If not given, the notionProperty is used.
+  frontmatterKey?: string;
+  type:
+    | "text"
+    | "select"
+    | "multi_select"
+    | "status"
+    | "number"
+    | "checkbox"
+    | "date"
+    | "url"
+    | "email"
+    | "phone_number"
+    | "people"
+    | "relation"
+    | "files"
+    | "formula"
+    | "rollup"
+    | "created_by"
+    | "last_edited_by";
+};
+
+// Copies these properties of each page into its frontmatter, e.g.
+//   frontmatterFromProperties([{ notionProperty: "Audience", frontmatterKey: "audience", type: "multi_select" }])
+// Properties that a page doesn't have, or that are empty, are left out.
+export function frontmatterFromProperties(
+  mappings: FrontmatterPropertyMapping[]
+): IPlugin {
+  return {
+    name: "frontmatter from properties",
+    frontmatter: (
+      context: IDocuNotionContext,
+      page: NotionPage,
+      frontmatter: IFrontmatter
+    ) => {
+      for (const mapping of mappings) {
+        const value = getPropertyValue(page, mapping);
+        if (value !== undefined) {
+          frontmatter[mapping.frontmatterKey ?? mapping.notionProperty] = value;
+        }
+      }
+    },
+  };
+}
+
+function getPropertyValue(
+  page: NotionPage,
+  { notionProperty, type }: FrontmatterPropertyMapping
+): unknown {
+  switch (type) {
+    case "text":
+      return page.getPlainTextProperty(notionProperty);
+    case "select":
+      return page.getSelectProperty(notionProperty);
+    case "multi_select":
+      // Notion doesn't allow commas in the names of options
+      return page.getMultiSelectProperty(notionProperty)?.split(",");
+    case "status":
+      return page.getStatusProperty(notionProperty);
+    case "number":
+      return page.getNumberProperty(notionProperty);
+    case "checkbox":
+      return page.getCheckboxProperty(notionProperty);
+    case "date":
+      return page.getDateProperty(notionProperty);
+    case "url":
+      return page.getUrlProperty(notionProperty);
+    case "email":
+      return page.getEmailProperty(notionProperty);
+    case "phone_number":
+      return page.getPhoneNumberProperty(notionProperty);
+    case "people":
+      return page.getPeopleProperty(notionProperty)?.map(nameOf);
+    case "relation":
+      return page.getRelationProperty(notionProperty);
+    case "files":
+      return page.getFilesProperty(notionProperty);
+    case "formula":
+      return page.getFormulaProperty(notionProperty);
+    case "rollup":
+      return page.getRollupProperty(notionProperty);
+    case "created_by":
+      return nameOf(page.getCreatedByProperty(notionProperty));
+    case "last_edited_by":
+      return nameOf(page.getLastEditedByProperty(notionProperty));
+  }
+}
+
+// Notion doesn't tell us the name of the creator or last editor of a page, just their id
+function nameOf(user: NotionUser | undefined): string | undefined {
+  return user && (user.name ?? user.id);
+}
+
+function parseFrontmatterProperty(page: NotionPage): IFrontmatter {
+  const yaml = page.frontmatter;
+  if (!yaml) return {};
+  try {
+    const parsed: unknown = parse(yaml);
+    if (typeof parsed === "object" && parsed && !Array.isArray(parsed)) {
+      return parsed as IFrontmatter;
+    }
+  } catch (e) {
+    // fall through to the warning
+  }
+  warning(
+    `[standardFrontmatter] Ignoring the Frontmatter property of "${page.nameOrTitle}" because it is not YAML like "key: value".`
+  );
+  return {};
+}
+
+// Notion gives us times in ISO format; we want just the YYYY-MM-DD
+function toDay(isoTime: string): string {
+  return new Date(isoTime).toISOString().slice(0, 10);
+}
@@ -82,7 +82,7 @@ async function downloadVideoAndConvertUrl(
   const response = await fetch(notionVideoUrl);
   const arrayBuffer = await response.arrayBuffer();
   const buffer = Buffer.from(arrayBuffer);
-  writeAsset(newPath, buffer);
+  writeAsset(newPath, buffer, context.dryRunPlan);
 
   // Add an import statement for the video file.
   // Otherwise, the docusaurus build won't include the video file in the build.
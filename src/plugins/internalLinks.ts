@@ -30,6 +30,7 @@ export function convertInternalUrl(
     warning(
       `[standardInternalLinkConversion] Could not find the target of this link. Note that links to outline sections are not supported. ${url}. https://github.com/sillsdev/docu-notion/issues/9`
     );
+    context.report?.brokenLink(context.pageInfo, url);
     return undefined;
   }
   return convertLinkHref(context, targetPage, url);
@@ -69,6 +70,7 @@ function convertInternalLink(
     warning(
       `[standardInternalLinkConversion] Could not find the target of this link. Note that links to outline sections are not supported. ${markdownLink}. https://github.com/sillsdev/docu-notion/issues/9`
     );
+    context.report?.brokenLink(context.pageInfo, markdownLink);
     return "**[Problem Internal Link]**";
   }
 
@@ -90,7 +92,8 @@ function convertLinkHref(
   targetPage: NotionPage,
   url: string
 ): string {
-  let convertedLink = context.layoutStrategy.getLinkPathForPage(targetPage);
+  context.linkedPageIds?.push(targetPage.pageId);
+  let convertedLink = getLinkPathForPageOfAnyTarget(context, targetPage);
 
   /*****************************
   NOTE: as of this writing, the official Notion API completely drops links
@@ -105,6 +108,27 @@ function convertLinkHref(
   //verbose(`Converting Link ${url} --> ${convertedLink}`);
   return convertedLink;
 }
+// Pages of another target are served by another docs plugin, so the link has to start with its route.
+function getLinkPathForPageOfAnyTarget(
+  context: IDocuNotionContext,
+  targetPage: NotionPage
+): string {
+  const otherTarget = context.otherTargets?.find(t =>
+    t.pages.includes(targetPage)
+  );
+  if (!otherTarget) {
+    return context.layoutStrategy.getLinkPathForPage(targetPage);
+  }
+  const path = otherTarget.layoutStrategy.getLinkPathForPage(targetPage);
+  if (!otherTarget.routeBasePath) {
+    warning(
+      `[standardInternalLinkConversion] The link to "${targetPage.nameOrTitle}" goes to another target, but that target has no routeBasePath in docu-notion.config.ts, so the link will probably not work.`
+    );
+    return path;
+  }
+  return ("/" + otherTarget.routeBasePath + "/" + path).replace(/\/+/g, "/");
+}
+
 // Parse the link ID to get the base (before the #) and the fragment (# and after).
 export function parseLinkId(fullLinkId: string): {
   baseLinkId: string; // before the #
@@ -114,6 +114,8 @@ export function makeSamplePageObject(options: {
   slug?: string;
   name?: string;
   id?: string;
+  // more properties, or ones to use instead of the sample ones, e.g. { Status: { type: "select", ... } }
+  properties?: Record<string, unknown>;
 }): NotionPage {
   let slugObject: any = {
     Slug: {
@@ -226,6 +228,7 @@ export function makeSamplePageObject(options: {
     },
     url: `https://www.notion.so/Hello-World-${id}`,
   };
+  if ("properties" in m) Object.assign(m.properties, options.properties);
 
   const p = new NotionPage({
     layoutContext: "/Second-Level/Third-Level",
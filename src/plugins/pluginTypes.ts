@@ -4,6 +4,9 @@ import { NotionToMarkdown } from "notion-to-md";
 import { DocuNotionOptions } from "../pull";
 import { LayoutStrategy } from "../LayoutStrategy";
 import { ICounts, NotionBlock } from "../index";
+import { DryRunPlan } from "../DryRunPlan";
+import { RunReport } from "../RunReport";
+import { ImageHandling } from "../images";
 
 type linkConversionFunction = (
   context: IDocuNotionContext,
@@ -35,6 +38,15 @@ export type IPlugin = {
   // simple regex replacements on the markdown output
   regexMarkdownModifications?: IRegexMarkdownModification[];
 
+  // Add, change, or remove keys of the frontmatter of a page. Plugins are called in order, each
+  // seeing what the ones before it did, starting with the built-in standardFrontmatter.
+  // The result is written to the page as YAML.
+  frontmatter?(
+    context: IDocuNotionContext,
+    page: NotionPage,
+    frontmatter: IFrontmatter
+  ): void | Promise<void>;
+
   // Allow a plugin to perform an async operation at the start of docu-notion.
   // Notice that the plugin itself is given, so you can add things to it.
   init?(plugin: IPlugin): Promise<void>;
@@ -59,6 +71,9 @@ export type IRegexMarkdownModification = {
   imports?: string[];
 };
 
+// Anything that can be written as YAML, e.g. { title: "Intro", tags: ["a", "b"] }
+export type IFrontmatter = Record<string, unknown>;
+
 export type ICustomNotionToMarkdownConversion = (
   block: ListBlockChildrenResponseResult,
   context: IDocuNotionContext
@@ -75,6 +90,16 @@ export type IDocuNotionContext = {
   convertNotionLinkToLocalDocusaurusLink: (url: string) => string | undefined;
   pages: NotionPage[];
   counts: ICounts;
+  // only set when doing a --dry-run; anything that would write to disk should report to this instead
+  dryRunPlan?: DryRunPlan;
+  // collects what happened in this run, for --report
+  report?: RunReport;
+  // where images go, and which ones we have seen, for the image transformer (see initImageHandling())
+  images?: ImageHandling;
+  // when the config has more than one target, the others, so that we can link to their pages
+  otherTargets?: IDocuNotionLinkTarget[];
+  // the ids of the pages this page links to, collected as links are converted
+  linkedPageIds?: string[];
 
   // If the output is creating things like react elements, you can append their import definitions
   // to this array so they get added to the page.
@@ -82,6 +107,13 @@ export type IDocuNotionContext = {
   imports: string[];
 };
 
+export type IDocuNotionLinkTarget = {
+  pages: NotionPage[];
+  layoutStrategy: LayoutStrategy;
+  // the route of the docs plugin that serves these pages, e.g. "/dev"
+  routeBasePath?: string;
+};
+
 export type IDocuNotionContextPageInfo = {
   directoryContainingMarkdown: string;
   relativeFilePathToFolderContainingPage: string;
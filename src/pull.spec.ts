@@ -0,0 +1,854 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as Path from "path";
+import { Client } from "@notionhq/client";
+import {
+  createDocuNotion,
+  DocuNotionOptions,
+  makeConcurrencyLimit,
+} from "./pull";
+import defaultConfig from "./config/default.docunotion.config";
+import { LayoutStrategy } from "./LayoutStrategy";
+import { HierarchicalNamedLayoutStrategy } from "./HierarchicalNamedLayoutStrategy";
+import { NotionPage } from "./NotionPage";
+import { DryRunPlan } from "./DryRunPlan";
+import { warning } from "./log";
+import { RunReport } from "./RunReport";
+
+// A tiny stand-in for the Notion API: a root page, containing an "Outline" page,
+// which has one child page with some text in it (or else the `outlinePages`, each titled
+// with its id and holding a line of text).
+// There is also a second root ("devroot") for testing more than one target, a third
+// ("guideroot") whose outline has a level with text of its own, and a fourth ("siteroot")
+// whose outline has both the introduction and that level.
+// Tests can change `lastEditedTimes` and `slugs` to simulate edits in Notion.
+function makeFakeNotionClient(
+  lastEditedTimes: Record<string, string> = {},
+  slugs: Record<string, string> = {},
+  outlinePages = ["intro"]
+): Client {
+  const titles: Record<string, string> = {
+    root: "Root",
+    outline: "Outline",
+    intro: "Introduction",
+    devroot: "Developers",
+    devoutline: "Outline",
+    api: "API",
+    guideroot: "Guide",
+    guideoutline: "Outline",
+    guides: "Guides",
+    install: "Install",
+    siteroot: "Site",
+    siteoutline: "Outline",
+  };
+  const children: Record<string, any[]> = {
+    root: [childPage("outline")],
+    outline: outlinePages.map(childPage),
+    intro: [paragraph("Hello from the fake Notion.")],
+    devroot: [childPage("devoutline")],
+    devoutline: [childPage("api")],
+    api: [paragraph("See the introduction.", "/intro")],
+    guideroot: [childPage("guideoutline")],
+    guideoutline: [childPage("guides")],
+    guides: [
+      callout("_category_\ncollapsed: true"),
+      paragraph("Start here."),
+      childPage("install"),
+    ],
+    install: [paragraph("Run the installer.")],
+    siteroot: [childPage("siteoutline")],
+    siteoutline: [childPage("intro"), childPage("guides")],
+  };
+  for (const id of outlinePages) {
+    titles[id] ??= id;
+    children[id] ??= [paragraph(`This is ${id}.`)];
+  }
+  return {
+    pages: {
+      retrieve: ({ page_id }: { page_id: string }) =>
+        Promise.resolve(
+          pageMetadata(
+            page_id,
+            titles[page_id],
+            lastEditedTimes[page_id],
+            slugs[page_id]
+          )
+        ),
+    },
+    blocks: {
+      children: {
+        list: ({ block_id }: { block_id: string }) =>
+          Promise.resolve({
+            object: "list",
+            results: children[block_id] ?? [],
+            next_cursor: null,
+            has_more: false,
+          }),
+      },
+    },
+    databases: {
+      query: () =>
+        Promise.resolve({
+          object: "list",
+          results: [],
+          next_cursor: null,
+          has_more: false,
+        }),
+    },
+  } as unknown as Client;
+}
+
+function pageMetadata(
+  id: string,
+  title: string,
+  lastEditedTime = "2023-04-13T20:24:00.000Z",
+  slug?: string
+) {
+  return {
+    object: "page",
+    id,
+    created_time: "2023-04-11T10:17:00.000Z",
+    last_edited_time: lastEditedTime,
+    parent: { type: "page_id", page_id: "root" },
+    properties: {
+      title: {
+        id: "title",
+        type: "title",
+        title: [{ type: "text", plain_text: title }],
+      },
+      ...(slug
+        ? { Slug: { id: "s", type: "rich_text", rich_text: richText(slug) } }
+        : {}),
+    },
+  };
+}
+
+function block(id: string, type: string, content: any) {
+  return {
+    object: "block",
+    id,
+    type,
+    [type]: content,
+    has_children: false,
+    archived: false,
+    created_time: "2023-04-11T10:17:00.000Z",
+    last_edited_time: "2023-04-13T20:24:00.000Z",
+  };
+}
+
+function childPage(id: string) {
+  return block(id, "child_page", { title: id });
+}
+
+function paragraph(text: string, linkUrl: string | null = null) {
+  return block("p-" + text.length.toString(), "paragraph", {
+    color: "default",
+    rich_text: richText(text, linkUrl),
+  });
+}
+
+function callout(text: string) {
+  return block("c-" + text.length.toString(), "callout", {
+    color: "default",
+    icon: null,
+    rich_text: richText(text),
+  });
+}
+
+function richText(text: string, linkUrl: string | null = null) {
+  return [
+    {
+      type: "text",
+      text: { content: text, link: linkUrl ? { url: linkUrl } : null },
+      annotations: {
+        bold: false,
+        italic: false,
+        strikethrough: false,
+        underline: false,
+        code: false,
+        color: "default",
+      },
+      plain_text: text,
+      href: linkUrl,
+    },
+  ];
+}
+
+describe("createDocuNotion", () => {
+  let outputDir: string;
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(Path.join(os.tmpdir(), "docu-notion-"));
+  });
+  afterEach(() => {
+    fs.removeSync(outputDir);
+  });
+
+  function makeOptions(): DocuNotionOptions {
+    return {
+      notionToken: "",
+      rootPage: "root",
+      locales: [],
+      markdownOutputPath: outputDir,
+      imgOutputPath: "",
+      imgPrefixInMarkdown: "",
+      statusTag: "*",
+    };
+  }
+
+  it("pulls using an injected client, and can pull more than once", async () => {
+    const docuNotion = createDocuNotion(
+      makeOptions(),
+      undefined,
+      makeFakeNotionClient()
+    );
+
+    const first = await docuNotion.pull();
+    expect(first.success).toBe(true);
+    expect(first.pages.map(p => p.nameOrTitle)).toEqual(["Introduction"]);
+    expect(first.counts.output_normally).toBe(1);
+    const markdown = fs.readFileSync(
+      Path.join(outputDir, "Introduction.md"),
+      "utf8"
+    );
+    expect(markdown).toContain("Hello from the fake Notion.");
+
+    // the second time, the page comes from the cache, and the counts start over
+    const second = await docuNotion.pull();
+    expect(second.success).toBe(true);
+    expect(second.counts.output_normally).toBe(0);
+    expect(second.report.pages[0].outcome).toBe("cached");
+  }, 30000);
+
+  it("can tell which pages have changed since the last pull", async () => {
+    const lastEditedTimes: Record<string, string> = {};
+    const docuNotion = createDocuNotion(
+      makeOptions(),
+      undefined,
+      makeFakeNotionClient(lastEditedTimes)
+    );
+    await docuNotion.pull();
+    expect(await docuNotion.findChangedPages()).toEqual([]);
+
+    lastEditedTimes["intro"] = "2024-01-01T00:00:00.000Z";
+    expect(await docuNotion.findChangedPages()).toEqual(["Introduction"]);
+
+    // a change to the outline is a change, too, because pages may have been added or moved
+    lastEditedTimes["outline"] = "2024-01-01T00:00:00.000Z";
+    expect(await docuNotion.findChangedPages()).toContain("Outline");
+
+    await docuNotion.pull();
+    expect(await docuNotion.findChangedPages()).toEqual([]);
+  }, 30000);
+
+  it("asks each database for its pages at once, and notices pages that leave it", async () => {
+    const lastEditedTimes: Record<string, string> = {};
+    const client = makeFakeNotionClient(lastEditedTimes);
+    // the outline links to the introduction, which is in a database
+    const list = client.blocks.children.list.bind(client.blocks.children);
+    client.blocks.children.list = (async (args: { block_id: string }) =>
+      args.block_id === "outline"
+        ? {
+            object: "list",
+            results: [
+              block("l-1", "link_to_page", {
+                type: "page_id",
+                page_id: "intro",
+              }),
+            ],
+            next_cursor: null,
+            has_more: false,
+          }
+        : await list(args)) as unknown as Client["blocks"]["children"]["list"];
+    const retrieve = client.pages.retrieve.bind(client.pages);
+    const retrieved: string[] = [];
+    const getIntro = async () => {
+      const metadata = (await retrieve({ page_id: "intro" })) as ReturnType<
+        typeof pageMetadata
+      >;
+      return {
+        ...metadata,
+        parent: { type: "database_id", database_id: "d-b" },
+        properties: { Name: metadata.properties.title },
+      };
+    };
+    client.pages.retrieve = (async (args: { page_id: string }) => {
+      retrieved.push(args.page_id);
+      return args.page_id === "intro" ? await getIntro() : await retrieve(args);
+    }) as unknown as Client["pages"]["retrieve"];
+    const queries: Array<{ database_id: string }> = [];
+    let introIsInDatabase = true;
+    let queryFails = false;
+    client.databases.query = (async (args: { database_id: string }) => {
+      queries.push(args);
+      if (queryFails) throw new Error("Could not find database");
+      return {
+        object: "list",
+        results: introIsInDatabase ? [await getIntro()] : [],
+        next_cursor: null,
+        has_more: false,
+      };
+    }) as unknown as Client["databases"]["query"];
+
+    const docuNotion = createDocuNotion(makeOptions(), undefined, client);
+    await docuNotion.pull();
+    retrieved.length = 0;
+    expect(await docuNotion.findChangedPages()).toEqual([]);
+    expect(retrieved).not.toContain("intro");
+    expect(queries).toEqual([{ database_id: "db" }]);
+
+    lastEditedTimes["intro"] = "2024-01-01T00:00:00.000Z";
+    expect(await docuNotion.findChangedPages()).toEqual(["Introduction"]);
+    await docuNotion.pull();
+
+    // moved out of the database, or deleted
+    introIsInDatabase = false;
+    expect(await docuNotion.findChangedPages()).toEqual(["Introduction"]);
+
+    // if we can't tell, we pull everything again
+    queryFails = true;
+    expect(await docuNotion.findChangedPages()).toEqual([
+      "the pages of database db",
+    ]);
+  }, 30000);
+
+  // a user guide, and a developer guide with a page that links to the user guide
+  function makeConfigWithTwoTargets() {
+    return {
+      ...defaultConfig,
+      targets: [
+        {
+          rootPage: "root",
+          markdownOutputPath: Path.join(outputDir, "user"),
+          routeBasePath: "guide",
+        },
+        {
+          rootPage: "devroot",
+          markdownOutputPath: Path.join(outputDir, "dev"),
+        },
+      ],
+    };
+  }
+
+  it("pulls each target of the config into its own directory, linking between them", async () => {
+    const userDir = Path.join(outputDir, "user");
+    const devDir = Path.join(outputDir, "dev");
+    const result = await createDocuNotion(
+      makeOptions(),
+      makeConfigWithTwoTargets(),
+      makeFakeNotionClient()
+    ).pull();
+    expect(result.success).toBe(true);
+    expect(result.counts.output_normally).toBe(2);
+    expect(fs.existsSync(Path.join(userDir, "Introduction.md"))).toBe(true);
+    const api = fs.readFileSync(Path.join(devDir, "API.md"), "utf8");
+    expect(api).toContain("[See the introduction.](/guide/intro)");
+    // each target has its own cache
+    expect(fs.existsSync(Path.join(devDir, ".docu-notion-cache.json"))).toBe(
+      true
+    );
+  }, 30000);
+
+  it("fails if the targets would have to share one layout strategy", async () => {
+    const result = await createDocuNotion(
+      makeOptions(),
+      {
+        ...makeConfigWithTwoTargets(),
+        layoutStrategy: new HierarchicalNamedLayoutStrategy(),
+      },
+      makeFakeNotionClient()
+    ).pull();
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain("must be a function");
+  });
+
+  it("fails if the translations of two targets would go to the same directory", async () => {
+    const translation = {
+      enabled: true,
+      provider: "openai" as const,
+      apiKey: "key",
+      sourceLanguage: "English",
+      targetLanguages: ["German"],
+      preserveCodeBlocks: true,
+      preserveFrontmatter: true,
+      preserveLinks: true,
+    };
+    const result = await createDocuNotion(
+      { ...makeOptions(), translation },
+      makeConfigWithTwoTargets(),
+      makeFakeNotionClient()
+    ).pull();
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain("docsPluginId");
+  });
+
+  it("times converting all the targets as one stage", async () => {
+    const endStage = vi.spyOn(RunReport.prototype, "endStage");
+    await createDocuNotion(
+      makeOptions(),
+      makeConfigWithTwoTargets(),
+      makeFakeNotionClient()
+    ).pull();
+    const stages = endStage.mock.calls.map(([stage]) => stage);
+    endStage.mockRestore();
+    expect(stages).toEqual(["outline", "convert", "cleanup"]);
+  }, 30000);
+
+  it("can re-pull just a changed page and the pages that link to it", async () => {
+    const docuNotion = createDocuNotion(
+      makeOptions(),
+      makeConfigWithTwoTargets(),
+      makeFakeNotionClient()
+    );
+    await docuNotion.pull();
+
+    const result = await docuNotion.pullPages(["intro"]);
+    expect(result.success).toBe(true);
+    expect(result.report.pages.map(p => [p.title, p.outcome])).toEqual([
+      ["Introduction", "written"],
+      ["API", "written"],
+    ]);
+
+    // a page we don't know about means the outline has changed, so everything is pulled (from the cache)
+    const full = await docuNotion.pullPages(["new-page"]);
+    expect(full.success).toBe(true);
+    expect(full.report.pages.map(p => p.outcome)).toEqual(["cached", "cached"]);
+  }, 30000);
+
+  it("uses the layout from the options, else the one from the config", async () => {
+    class PrefixedLayoutStrategy extends LayoutStrategy {
+      public newLevel(dir: string, order: number, context: string) {
+        return context;
+      }
+      public getPathForPage(page: NotionPage, extensionWithDot: string) {
+        return `${this.rootDirectory}/custom-${page.pageId}${extensionWithDot}`;
+      }
+    }
+    const config = {
+      ...defaultConfig,
+      layoutStrategy: () => new PrefixedLayoutStrategy(),
+    };
+    await createDocuNotion(
+      makeOptions(),
+      config,
+      makeFakeNotionClient()
+    ).pull();
+    expect(fs.existsSync(Path.join(outputDir, "custom-intro.md"))).toBe(true);
+
+    await createDocuNotion(
+      { ...makeOptions(), layout: "flat-guid", forceRefreshPages: true },
+      config,
+      makeFakeNotionClient()
+    ).pull();
+    expect(fs.existsSync(Path.join(outputDir, "intro.md"))).toBe(true);
+    // the other layout's file was cleaned up
+    expect(fs.existsSync(Path.join(outputDir, "custom-intro.md"))).toBe(false);
+  }, 30000);
+
+  it("makes the text of a level the landing page of its category", async () => {
+    const result = await createDocuNotion(
+      { ...makeOptions(), rootPage: "guideroot" },
+      undefined,
+      makeFakeNotionClient()
+    ).pull();
+    expect(result.success).toBe(true);
+    expect(result.pages.map(p => p.nameOrTitle)).toEqual(["Guides", "Install"]);
+    const guidesDir = Path.join(outputDir, "Guides");
+    const landing = fs.readFileSync(Path.join(guidesDir, "index.md"), "utf8");
+    expect(landing).toContain("Start here.");
+    expect(landing).not.toContain("_category_");
+    expect(landing).not.toContain("install");
+    expect(fs.existsSync(Path.join(guidesDir, "Install.md"))).toBe(true);
+    expect(
+      fs.readJsonSync(Path.join(guidesDir, "_category_.json"))
+    ).toMatchObject({ label: "Guides", collapsed: true });
+  }, 30000);
+
+  it("adds a redirect when the slug of a page changes", async () => {
+    const lastEditedTimes: Record<string, string> = {};
+    const slugs: Record<string, string> = { intro: "start" };
+    const client = makeFakeNotionClient(lastEditedTimes, slugs);
+    await createDocuNotion(makeOptions(), undefined, client).pull();
+    expect(fs.existsSync(Path.join(outputDir, "redirects.json"))).toBe(false);
+
+    slugs["intro"] = "begin";
+    lastEditedTimes["intro"] = "2024-01-01T00:00:00.000Z";
+    await createDocuNotion(makeOptions(), undefined, client).pull();
+    expect(fs.readJsonSync(Path.join(outputDir, "redirects.json"))).toEqual({
+      redirects: [{ from: "/start", to: "/begin" }],
+      removed: [],
+    });
+  }, 30000);
+
+  it("builds the frontmatter with plugins and writes it as YAML", async () => {
+    const config = {
+      ...defaultConfig,
+      plugins: [
+        ...defaultConfig.plugins,
+        {
+          name: "test frontmatter",
+          frontmatter: (
+            context: unknown,
+            page: NotionPage,
+            frontmatter: Record<string, unknown>
+          ) => {
+            delete frontmatter.date;
+            frontmatter.sidebar_label = `${page.nameOrTitle}: the basics`;
+          },
+        },
+      ],
+    };
+    await createDocuNotion(
+      makeOptions(),
+      config,
+      makeFakeNotionClient()
+    ).pull();
+    const markdown = fs.readFileSync(
+      Path.join(outputDir, "Introduction.md"),
+      "utf8"
+    );
+    expect(markdown).toContain(
+      [
+        "---",
+        "title: Introduction",
+        'description: ""',
+        "sidebar_position: 0",
+        "slug: /intro",
+        'sidebar_label: "Introduction: the basics"',
+        "---",
+      ].join("\n")
+    );
+  }, 30000);
+
+  it("puts the warnings of plugins in the report, along with the page", async () => {
+    const config = {
+      ...defaultConfig,
+      plugins: [
+        ...defaultConfig.plugins,
+        {
+          name: "test warning",
+          frontmatter: (context: unknown, page: NotionPage) => {
+            warning(`Please check ${page.nameOrTitle}`);
+          },
+        },
+      ],
+    };
+    const result = await createDocuNotion(
+      makeOptions(),
+      config,
+      makeFakeNotionClient()
+    ).pull();
+    expect(result.report.warnings).toContainEqual({
+      pageSlug: "/intro",
+      message: "Please check Introduction",
+    });
+  }, 30000);
+
+  describe("with property names in French", () => {
+    // the introduction is a page of a database whose properties have French names
+    function makeFrenchClient(): Client {
+      const client = makeFakeNotionClient();
+      const retrieve = client.pages.retrieve.bind(client.pages);
+      client.pages.retrieve = (async (args: { page_id: string }) => {
+        if (args.page_id !== "intro") return retrieve(args);
+        return {
+          ...pageMetadata("intro", ""),
+          parent: { type: "database_id", database_id: "db" },
+          properties: {
+            Titre: { id: "title", type: "title", title: richText("Accueil") },
+            Statut: { id: "s", type: "select", select: { name: "Publié" } },
+          },
+        };
+      }) as unknown as Client["pages"]["retrieve"];
+      return client;
+    }
+
+    it("reads the properties and filters by status with those names", async () => {
+      const config = {
+        ...defaultConfig,
+        propertyNames: { name: "Titre", status: "Statut" },
+      };
+      const result = await createDocuNotion(
+        { ...makeOptions(), statusTag: "Publié" },
+        config,
+        makeFrenchClient()
+      ).pull();
+      expect(result.success).toBe(true);
+      expect(result.counts.output_normally).toBe(1);
+      expect(fs.existsSync(Path.join(outputDir, "Accueil.md"))).toBe(true);
+    }, 30000);
+
+    it("publishes pages with a draft status, even if they don't match --status-tag", async () => {
+      const config = {
+        ...defaultConfig,
+        propertyNames: { name: "Titre", status: "Statut" },
+      };
+      const result = await createDocuNotion(
+        { ...makeOptions(), statusTag: "Publish", draftStatus: ["Publié"] },
+        config,
+        makeFrenchClient()
+      ).pull();
+      expect(result.counts.output_normally).toBe(1);
+      const markdown = fs.readFileSync(
+        Path.join(outputDir, "Accueil.md"),
+        "utf8"
+      );
+      expect(markdown).toContain("draft: true\n");
+    }, 30000);
+
+    it("keeps the file and url of a page that no longer matches the status filter", async () => {
+      const config = {
+        ...defaultConfig,
+        propertyNames: { name: "Titre", status: "Statut" },
+      };
+      const client = makeFrenchClient();
+      await createDocuNotion(
+        { ...makeOptions(), statusTag: "Publié" },
+        config,
+        client
+      ).pull();
+      const result = await createDocuNotion(
+        { ...makeOptions(), statusTag: "Publish", forceRefreshPages: true },
+        config,
+        client
+      ).pull();
+      expect(result.counts.skipped_because_status).toBe(1);
+      expect(fs.existsSync(Path.join(outputDir, "Accueil.md"))).toBe(true);
+      // nothing moved or was removed, so there are no redirects to write
+      expect(fs.existsSync(Path.join(outputDir, "redirects.json"))).toBe(false);
+    }, 30000);
+
+    it("fails when a property named in the config doesn't exist", async () => {
+      const config = {
+        ...defaultConfig,
+        propertyNames: { name: "Titre", status: "État" },
+      };
+      const result = await createDocuNotion(
+        makeOptions(),
+        config,
+        makeFrenchClient()
+      ).pull();
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('status: "État"');
+      expect(result.errors[0]).not.toContain("name:");
+    });
+  });
+
+  it("publishes pages on their Publish date and removes them on their Unpublish date", async () => {
+    const client = makeFakeNotionClient();
+    const retrieve = client.pages.retrieve.bind(client.pages);
+    client.pages.retrieve = (async (args: { page_id: string }) => {
+      const metadata = (await retrieve(args)) as ReturnType<
+        typeof pageMetadata
+      >;
+      if (args.page_id !== "intro") return metadata;
+      return {
+        ...metadata,
+        parent: { type: "database_id", database_id: "db" },
+        properties: {
+          Name: metadata.properties.title,
+          "Publish date": { type: "date", date: { start: "2030-05-01" } },
+          "Unpublish date": {
+            type: "date",
+            date: { start: "2030-06-01T12:00:00.000Z" },
+          },
+        },
+      };
+    }) as unknown as Client["pages"]["retrieve"];
+    const pullAt = (now: string) =>
+      createDocuNotion({ ...makeOptions(), now }, undefined, client).pull();
+    const file = Path.join(outputDir, "Introduction.md");
+
+    const before = await pullAt("2030-04-30");
+    expect(before.counts.skipped_because_scheduled).toBe(1);
+    expect(before.report.pages[0].outcome).toBe("skipped-scheduled");
+    expect(fs.existsSync(file)).toBe(false);
+
+    const releaseDay = await pullAt("2030-05-01");
+    expect(releaseDay.counts.output_normally).toBe(1);
+    expect(fs.existsSync(file)).toBe(true);
+
+    // the page hasn't changed, but it still goes away
+    const after = await pullAt("2030-06-01T13:00:00.000Z");
+    expect(after.counts.skipped_because_scheduled).toBe(1);
+    expect(fs.existsSync(file)).toBe(false);
+
+    // back before the Unpublish date, the page isn't mistaken for being in the cache
+    const again = await pullAt("2030-05-15");
+    expect(again.counts.output_normally).toBe(1);
+    expect(fs.existsSync(file)).toBe(true);
+
+    const bad = await pullAt("someday");
+    expect(bad.success).toBe(false);
+    expect(bad.errors[0]).toContain('--now "someday"');
+  }, 30000);
+
+  it("removes images that no page uses anymore only if asked, and lists them in a dry run", async () => {
+    const imgDir = Path.join(outputDir, "img");
+    const options = {
+      ...makeOptions(),
+      imgOutputPath: imgDir,
+      removeUnusedImages: true,
+    };
+    const client = makeFakeNotionClient();
+    const deleted = vi.spyOn(DryRunPlan.prototype, "assetWouldBeDeleted");
+
+    await createDocuNotion(
+      { ...options, dryRun: true },
+      undefined,
+      client
+    ).pull();
+    expect(fs.existsSync(imgDir)).toBe(false);
+
+    const docuNotion = createDocuNotion(options, undefined, client);
+    await docuNotion.pull();
+    fs.writeFileSync(Path.join(imgDir, "old.png"), "");
+    fs.writeFileSync(Path.join(imgDir, "used.png"), "");
+    fs.writeFileSync(Path.join(imgDir, "notes.txt"), "");
+    // the page is unchanged, so this markdown is kept as is
+    fs.appendFileSync(
+      Path.join(outputDir, "Introduction.md"),
+      "\n![](img/used.png)\n"
+    );
+
+    await createDocuNotion(
+      { ...options, dryRun: true },
+      undefined,
+      client
+    ).pull();
+    expect(deleted.mock.calls).toEqual([[Path.posix.join(imgDir, "old.png")]]);
+    deleted.mockRestore();
+    expect(fs.existsSync(Path.join(imgDir, "old.png"))).toBe(true);
+
+    // without --remove-unused-images, images we don't know about are left alone
+    await createDocuNotion(
+      { ...options, removeUnusedImages: false },
+      undefined,
+      client
+    ).pull();
+    expect(fs.existsSync(Path.join(imgDir, "old.png"))).toBe(true);
+
+    await docuNotion.pull();
+    expect(fs.readdirSync(imgDir).sort()).toEqual(["notes.txt", "used.png"]);
+  }, 30000);
+
+  it("stops converting pages after one fails, and writes nothing after returning", async () => {
+    const client = makeFakeNotionClient({}, {}, ["p1", "p2", "p3", "p4"]);
+    const listChildren = client.blocks.children.list;
+    const listings: Record<string, number> = {};
+    client.blocks.children.list = (async (args: { block_id: string }) => {
+      const id = args.block_id;
+      // the first listing is the outline looking for child pages, the second is converting
+      listings[id] = (listings[id] ?? 0) + 1;
+      if (listings[id] > 1) {
+        if (id === "p2") throw new Error("p2 is broken");
+        // p1 is still being converted when p2 fails
+        if (id === "p1")
+          await new Promise(resolve => setTimeout(resolve, 1500));
+      }
+      return listChildren(args);
+    }) as unknown as Client["blocks"]["children"]["list"];
+
+    const result = await createDocuNotion(
+      { ...makeOptions(), concurrency: 2 },
+      undefined,
+      client
+    ).pull();
+    expect(result.success).toBe(false);
+    // the page that was in progress got finished before pull() returned...
+    const written = fs.readdirSync(outputDir).filter(f => f.endsWith(".md"));
+    expect(written).toEqual(["p1.md"]);
+    // ...and no other pages were started
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(fs.readdirSync(outputDir).filter(f => f.endsWith(".md"))).toEqual(
+      written
+    );
+  }, 30000);
+
+  it("keeps the order of the outline when it looks up pages in parallel", async () => {
+    const pageIds = ["p1", "p2", "p3", "p4", "p5"];
+    const client = makeFakeNotionClient({}, {}, pageIds);
+    // the later a page is in the outline, the sooner Notion answers
+    const retrieve = client.pages.retrieve;
+    client.pages.retrieve = (async (args: { page_id: string }) => {
+      const index = pageIds.indexOf(args.page_id);
+      if (index >= 0) {
+        const delay = (pageIds.length - index) * 500;
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+      return retrieve(args);
+    }) as unknown as Client["pages"]["retrieve"];
+
+    const result = await createDocuNotion(
+      makeOptions(),
+      undefined,
+      client
+    ).pull();
+    expect(result.pages.map(p => p.nameOrTitle)).toEqual(pageIds);
+    expect(result.pages.map(p => p.order)).toEqual([0, 1, 2, 3, 4]);
+  }, 30000);
+
+  it("leaves the files outside of the --only part of the outline alone", async () => {
+    const imgDir = Path.join(outputDir, "img");
+    const guidesDir = Path.join(outputDir, "Guides");
+    const options = {
+      ...makeOptions(),
+      rootPage: "siteroot",
+      imgOutputPath: imgDir,
+      removeUnusedImages: true,
+    };
+    const client = makeFakeNotionClient();
+    await createDocuNotion(options, undefined, client).pull();
+    const intro = Path.join(outputDir, "Introduction.md");
+    fs.appendFileSync(intro, "\nEdited by hand.\n");
+    fs.writeFileSync(Path.join(outputDir, "Old.md"), "");
+    fs.writeFileSync(Path.join(guidesDir, "Old.md"), "");
+    fs.writeFileSync(Path.join(imgDir, "old.png"), "");
+
+    const result = await createDocuNotion(
+      { ...options, only: "Guides", forceRefreshPages: true },
+      undefined,
+      client
+    ).pull();
+    expect(result.success).toBe(true);
+    expect(result.counts.output_normally).toBe(2);
+    expect(fs.readFileSync(intro, "utf8")).toContain("Edited by hand.");
+    expect(fs.existsSync(Path.join(outputDir, "Old.md"))).toBe(true);
+    expect(fs.existsSync(Path.join(imgDir, "old.png"))).toBe(true);
+    // within the part of the outline that was pulled, old files are removed as usual
+    expect(fs.existsSync(Path.join(guidesDir, "Old.md"))).toBe(false);
+    expect(fs.existsSync(Path.join(guidesDir, "Install.md"))).toBe(true);
+  }, 30000);
+
+  it("reports a missing root page instead of exiting", async () => {
+    const client = makeFakeNotionClient();
+    client.pages.retrieve = () => Promise.reject(new Error("no such page"));
+    const result = await createDocuNotion(
+      makeOptions(),
+      undefined,
+      client
+    ).pull();
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain("could not retrieve the root page");
+  });
+});
+
+describe("makeConcurrencyLimit", () => {
+  it("runs no more than the limit at once, even as more work arrives", async () => {
+    const limit = makeConcurrencyLimit(2);
+    let running = 0;
+    let mostRunning = 0;
+    const work = async (n: number): Promise<number> => {
+      const result = await limit(async () => {
+        mostRunning = Math.max(mostRunning, ++running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        --running;
+        return n;
+      });
+      // like a page of the outline, some work leads to more work
+      return result < 3 ? result + (await work(result + 10)) : result;
+    };
+    const results = await Promise.all([1, 2, 3, 4, 5].map(work));
+    expect(results).toEqual([12, 14, 3, 4, 5]);
+    expect(mostRunning).toBe(2);
+  });
+});
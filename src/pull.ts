@@ -3,13 +3,33 @@ import * as fs from "fs-extra";
 import { NotionToMarkdown } from "notion-to-md";
 import { HierarchicalNamedLayoutStrategy } from "./HierarchicalNamedLayoutStrategy";
 import { LayoutStrategy } from "./LayoutStrategy";
-import { NotionPage, PageType } from "./NotionPage";
-import { initImageHandling, cleanupOldImages } from "./images";
-import { TranslationPlugin, TranslationPluginOptions } from "./TranslationPlugin";
+import { FlatGuidLayoutStrategy } from "./FlatGuidLayoutStrategy";
+import { SlugLayoutStrategy } from "./SlugLayoutStrategy";
+import { getCategoryMetadata } from "./CategoryMetadata";
+import { findCollisions } from "./collisions";
+import { parseStatusFilter } from "./StatusFilter";
+import {
+  defaultPropertyNames,
+  NotionPage,
+  NotionPropertyNames,
+  PageType,
+} from "./NotionPage";
+import {
+  initImageHandling,
+  cleanupOldImages,
+  ImageHandling,
+  keepImagesUsedBy,
+} from "./images";
+import {
+  TranslationPlugin,
+  TranslationPluginOptions,
+} from "./TranslationPlugin";
 
 import * as Path from "path";
 import { NotionPageCache } from "./NotionPageCache";
+import { RedirectMap } from "./RedirectMap";
 import {
+  collectWarnings,
   endGroup,
   error,
   group,
@@ -24,19 +44,39 @@ import {
   BlockObjectResponse,
   GetPageResponse,
   ListBlockChildrenResponse,
+  QueryDatabaseResponse,
 } from "@notionhq/client/build/src/api-endpoints";
 import { RateLimiter } from "limiter";
 import { Client, isFullBlock } from "@notionhq/client";
 import { exit } from "process";
-import { IDocuNotionConfig, loadConfigAsync } from "./config/configuration";
-import { NotionBlock } from "./types";
+import {
+  checkConfig,
+  IDocuNotionConfig,
+  loadConfigAsync,
+} from "./config/configuration";
+import defaultConfig from "./config/default.docunotion.config";
+import { ICounts, NotionBlock } from "./types";
 import { convertInternalUrl } from "./plugins/internalLinks";
 import { ListBlockChildrenResponseResults } from "notion-to-md/build/types";
+import { DryRunPlan } from "./DryRunPlan";
+import { RunReport } from "./RunReport";
+import { findSubtree, OutlineLevel, OutlineSubtree } from "./OutlineSubtree";
+import { arrangeDatabasePages } from "./DatabaseOutline";
 
 type ImageFileNameFormat = "default" | "content-hash" | "legacy";
+
+// The layout strategies that can be chosen by name, e.g. with --layout
+export const layoutStrategies = {
+  hierarchical: (): LayoutStrategy => new HierarchicalNamedLayoutStrategy(),
+  "flat-guid": (): LayoutStrategy => new FlatGuidLayoutStrategy(),
+  slug: (): LayoutStrategy => new SlugLayoutStrategy(),
+};
+export type LayoutName = keyof typeof layoutStrategies;
+
 export type DocuNotionOptions = {
   notionToken: string;
-  rootPage: string;
+  // the page that has the "Outline" page as a child. Not needed if `database` is given.
+  rootPage?: string;
   locales: string[];
   markdownOutputPath: string;
   imgOutputPath: string;
@@ -46,240 +86,1159 @@ export type DocuNotionOptions = {
   imageFileNameFormat?: ImageFileNameFormat;
   forceRefreshPages?: boolean;
   forceRefreshImages?: boolean;
+  // delete the images in imgOutputPath that no page uses anymore (by default, images are never deleted)
+  removeUnusedImages?: boolean;
+  // if given, this overrides any layoutStrategy in the config. The default is "hierarchical".
+  layout?: LayoutName;
+  // how many pages to fetch and convert at the same time in Stage 2
+  concurrency?: number;
+  // walk the outline and convert pages, but only report what files would change
+  dryRun?: boolean;
+  // fail the run, instead of just warning, when two pages would have the same slug or file
+  strict?: boolean;
+  // if given, a JSON report of the run is written to this file
+  report?: string;
+  // if given, only this page or part of the outline (given as a page id or outline path) is converted
+  only?: string;
+  // database pages with these statuses are published as drafts, or as unlisted pages (see StatusFilter.ts)
+  draftStatus?: string[];
+  unlistedStatus?: string[];
+  // pretend it is this date (and time), when comparing with the Publish date and Unpublish date of pages
+  now?: string;
+  // if given, pages come from querying this database instead of from the "Outline" under rootPage.
+  // See DatabaseOutline.ts for how the Parent, Category, and Order properties shape the sidebar.
+  database?: string;
   translation?: TranslationPluginOptions;
 };
 
-let layoutStrategy: LayoutStrategy;
-let notionToMarkdown: NotionToMarkdown;
-const pages = new Array<NotionPage>();
-const counts = {
-  output_normally: 0,
-  skipped_because_empty: 0,
-  skipped_because_status: 0,
-  skipped_because_level_cannot_have_content: 0,
-  error_because_no_slug: 0,
+export type DocuNotionCounts = ICounts & {
+  error_because_no_slug: number;
+  skipped_because_scheduled: number;
+};
+
+export type DocuNotionResult = {
+  success: boolean;
+  // the reasons for failure, if any
+  errors: string[];
+  counts: DocuNotionCounts;
+  // every page found in the outline, whether or not it was written this time
+  pages: NotionPage[];
+  report: RunReport;
+};
+
+export type DocuNotion = {
+  pull(): Promise<DocuNotionResult>;
+  // Cheaply asks Notion whether anything has changed since the last pull(), by getting just the
+  // metadata of the outline pages, and querying each database for all of its pages at once (a
+  // hundred to a request). Pages that were added, moved, or removed show up as changes to the outline
+  // pages, or as pages missing from (or, for --database, new in) the query results. If a database
+  // can't be queried, that counts as a change too, so that we pull everything again.
+  // Returns the titles of what changed. Watch mode uses this to decide when to pull again.
+  findChangedPages(): Promise<string[]>;
+  // Converts just these pages (given by id) again, along with the pages that link to them, using what
+  // the last pull() learned about the outline. When that isn't enough, e.g. because a page is new, has
+  // moved, or is no longer published, this does a full pull() instead. `docu-notion serve` uses this.
+  pullPages(pageIds: string[]): Promise<DocuNotionResult>;
 };
 
+// Everything that belongs to a single pull of one target. We keep this out of module variables so that
+// a program can embed docu-notion and pull more than once (see createDocuNotion()).
+// When the config has several targets, each gets its own session, but they all share the
+// counts, report, dry run plan, and errors.
+type PullSession = {
+  options: DocuNotionOptions;
+  config: IDocuNotionConfig;
+  notionClient: Client;
+  layoutStrategy: LayoutStrategy;
+  cache: NotionPageCache;
+  counts: DocuNotionCounts;
+  report: RunReport;
+  dryRunPlan?: DryRunPlan;
+  // the pages of this target, as we find them in Stage 1
+  pages: NotionPage[];
+  // the pages of the outline that became levels, as we find them in Stage 1
+  outlineLevels: OutlineLevel[];
+  // every page we walked in Stage 1 to find the others, so that we can tell when the outline changes
+  outlinePages: NotionPage[];
+  // see IDocuNotionTarget.routeBasePath
+  routeBasePath?: string;
+  // see IDocuNotionTarget.docsPluginId
+  docsPluginId?: string;
+  // the defaults, overridden by any propertyNames in the config
+  propertyNames: NotionPropertyNames;
+  // whether we have checked the propertyNames of the config against the database yet
+  propertyNamesChecked: boolean;
+  // shared by all the targets; set up at the start of each pull (see initImageHandling())
+  images?: ImageHandling;
+  // keeps the number of outline pages we are looking up at once in Stage 1 within kMaxLookupsAtOnce
+  limitLookups: ConcurrencyLimit;
+  // the sessions of the other targets, so that we can link to their pages
+  otherTargets: PullSession[];
+  errors: string[];
+  // what Publish and Unpublish dates are compared with
+  now: Date;
+};
+
+// This is what the command line uses. It reads docu-notion.config.ts and exits with an error code if the pull fails.
 export async function notionPull(options: DocuNotionOptions): Promise<void> {
+  const config = await loadConfigAsync();
+  const result = await createDocuNotion(options, config).pull();
+  if (!result.success) exit(1);
+}
+
+// Use this to run docu-notion from your own code. `config` should be complete, i.e. include
+// the standard plugins; use prepareConfigAsync() to get that from just your own plugins.
+// If you don't give a `notionClient`, we make one using `options.notionToken`.
+// Failures are reported in the result rather than by exiting the process.
+export function createDocuNotion(
+  options: DocuNotionOptions,
+  config: IDocuNotionConfig = defaultConfig,
+  notionClient?: Client
+): DocuNotion {
+  const client = notionClient ?? initNotionClient(options.notionToken);
+  let sessionsOfLastPull: PullSession[] | undefined;
+  let lastPullSucceeded = false;
+  // Warnings that don't come while converting a page go in the report, too. (Each pull starts
+  // a new report, so we look it up each time.)
+  const reportWarning = (message: string) =>
+    sessionsOfLastPull?.[0].report.warning(undefined, message);
+  const pullAll = async () => {
+    const sessions = makeSessions(options, config, client);
+    sessionsOfLastPull = sessions;
+    const result = await collectWarnings(reportWarning, () =>
+      pull(options, config, sessions)
+    );
+    lastPullSucceeded = result.success;
+    return result;
+  };
+  return {
+    pull: pullAll,
+    findChangedPages: () => {
+      if (!sessionsOfLastPull) {
+        throw new Error("findChangedPages() can only be used after pull()");
+      }
+      return findChangedPages(sessionsOfLastPull);
+    },
+    pullPages: async (pageIds: string[]) => {
+      // if the last pull failed, we can't trust what it learned about the outline
+      const sessions = sessionsOfLastPull;
+      const result =
+        sessions && lastPullSucceeded
+          ? await collectWarnings(reportWarning, () =>
+              pullSomePages(options, sessions, pageIds)
+            )
+          : undefined;
+      if (!result) return await pullAll();
+      lastPullSucceeded = result.success;
+      return result;
+    },
+  };
+}
+
+async function pull(
+  options: DocuNotionOptions,
+  config: IDocuNotionConfig,
+  sessions: PullSession[]
+): Promise<DocuNotionResult> {
   // It's helpful when troubleshooting CI secrets and environment variables to see what options actually made it to docu-notion.
   // eslint-disable-next-line @typescript-eslint/no-unsafe-call
   const optionsForLogging = { ...options };
   // Just show the first few letters of the notion token, which start with "secret" anyhow.
   optionsForLogging.notionToken =
-    optionsForLogging.notionToken.substring(0, 10) + "...";
+    (optionsForLogging.notionToken ?? "").substring(0, 10) + "...";
 
-  const config = await loadConfigAsync();
+  // for anything that isn't about one target in particular
+  const session = sessions[0];
+  const { dryRunPlan } = session;
+  session.report.dryRun = !!options.dryRun;
+  let pages: NotionPage[] = [];
 
-  verbose(`Options:${JSON.stringify(optionsForLogging, null, 2)}`);
-  await initImageHandling(
-    options.imgPrefixInMarkdown || options.imgOutputPath || "",
-    options.imgOutputPath || "",
-    options.locales
-  );
+  try {
+    verbose(`Options:${JSON.stringify(optionsForLogging, null, 2)}`);
+    if (config.targets?.length) {
+      verbose(`Targets:${JSON.stringify(config.targets, null, 2)}`);
+    }
+    checkConfig(config);
+    checkTranslationTargets(sessions);
+    const images = await initImageHandling(
+      options.imgPrefixInMarkdown || options.imgOutputPath || "",
+      options.imgOutputPath || "",
+      options.locales,
+      !!dryRunPlan,
+      options.removeUnusedImages
+    );
+    sessions.forEach(s => (s.images = images));
+
+    for (const s of sessions) {
+      s.layoutStrategy.setDryRun(!!dryRunPlan);
+      if (!dryRunPlan) {
+        await fs.mkdir(s.options.markdownOutputPath, { recursive: true });
+      }
+      s.layoutStrategy.setRootDirectoryForMarkdown(
+        s.options.markdownOutputPath.replace(/\/+$/, "") // trim any trailing slash
+      );
+    }
 
-  const notionClient = initNotionClient(options.notionToken);
-  notionToMarkdown = new NotionToMarkdown({ notionClient });
+    // complain about a bad --status-tag or --now before walking the whole outline
+    sessions.forEach(s => parseStatusFilter(s.options.statusTag));
+    if (isNaN(session.now.getTime())) {
+      throw new Error(
+        `--now "${
+          options.now ?? ""
+        }" is not a date like 2024-05-01 or 2024-05-01T09:00.`
+      );
+    }
 
-  const cache = new NotionPageCache(options.markdownOutputPath);
+    info("Connecting to Notion...");
+    for (const s of sessions) {
+      const problem = await checkRootOfTarget(s, optionsForLogging.notionToken);
+      if (problem) return failed(session, pages, problem);
+    }
 
-  layoutStrategy = new HierarchicalNamedLayoutStrategy();
+    session.report.startStage("outline");
+    // We find the pages of every target before converting any of them, so that links between targets work.
+    for (const s of sessions) {
+      s.pages = await getPagesOfTarget(s);
+      logDebug("getPagesRecursively", JSON.stringify(s.pages, null, 2));
+      info(`Found ${s.pages.length} pages`);
+      endGroup();
+    }
+    pages = sessions.flatMap(s => s.pages);
+    session.report.endStage("outline");
 
-  await fs.mkdir(options.markdownOutputPath, { recursive: true });
-  layoutStrategy.setRootDirectoryForMarkdown(
-    options.markdownOutputPath.replace(/\/+$/, "") // trim any trailing slash
+    const collisions = findCollisions(
+      sessions.map(s => ({
+        pages: s.pages.filter(p => isPublished(s, p)),
+        layoutStrategy: s.layoutStrategy,
+        routeBasePath: s.routeBasePath,
+      }))
+    );
+    for (const message of collisions) {
+      if (options.strict) {
+        error(message);
+        session.errors.push(message);
+        session.report.warning(undefined, message);
+      } else {
+        warning(message);
+      }
+    }
+    if (options.strict && collisions.length) {
+      return failed(session, pages);
+    }
+
+    // We still needed the whole outline so that links to pages outside of the subtree work.
+    // With several targets, a target that --only doesn't match gets no pages, and none of its files are touched.
+    let subtrees: Array<OutlineSubtree | undefined> = sessions.map(
+      () => undefined
+    );
+    const { only } = options;
+    if (only) {
+      subtrees = sessions.map(s => findSubtree(only, s.pages, s.outlineLevels));
+      if (subtrees.every(s => !s)) {
+        return failed(
+          session,
+          pages,
+          `--only "${only}" did not match the id or outline path of any page or level of the outline.`
+        );
+      }
+      subtrees = subtrees.map(s => s ?? { pages: [] });
+      const count = subtrees.reduce(
+        (sum, s) => sum + (s?.pages.length ?? 0),
+        0
+      );
+      info(`Limiting the pull to ${count} pages because of --only "${only}"`);
+    }
+
+    const pagesToOutput = sessions.map((s, i) => subtrees[i]?.pages ?? s.pages);
+    group(
+      `Stage 2: convert ${
+        pagesToOutput.flat().length
+      } Notion pages to markdown and save locally...`
+    );
+    session.report.startStage("convert");
+    for (const [i, s] of sessions.entries()) {
+      // pages outside of the subtree keep their files
+      s.pages
+        .filter(p => !pagesToOutput[i].includes(p))
+        .forEach(p => s.layoutStrategy.pageWasSeen(p));
+      await outputPages(s, getPagesForLinks(s), pagesToOutput[i]);
+    }
+    session.report.endStage("convert");
+    endGroup();
+    if (session.errors.length) {
+      return failed(session, pages);
+    }
+    await translateOutput(sessions);
+    session.report.startStage("cleanup");
+    if (dryRunPlan) {
+      group("Stage 3: dry run, listing what would have changed...");
+    } else {
+      group("Stage 3: clean up old files & images...");
+    }
+    for (const [i, s] of sessions.entries()) {
+      await cleanupTarget(s, subtrees[i]);
+      s.layoutStrategy.finishPull(s.pages.filter(p => isPublished(s, p)));
+    }
+    if (!only) {
+      if (dryRunPlan) {
+        images.existingImagesNotSeenYetInPull.forEach(p =>
+          dryRunPlan.assetWouldBeDeleted(p)
+        );
+      } else {
+        await cleanupOldImages(images);
+      }
+    }
+    dryRunPlan?.report();
+    endGroup();
+    session.report.endStage("cleanup");
+  } catch (e: any) {
+    return failed(session, pages, e.message);
+  }
+  writeReportIfRequested(session);
+  return {
+    success: true,
+    errors: [],
+    counts: session.counts,
+    pages,
+    report: session.report,
+  };
+}
+
+// Each target is pulled with the given options, except for what the target itself specifies.
+// Without any targets in the config, there is just the one, described by the options.
+function makeSessions(
+  options: DocuNotionOptions,
+  config: IDocuNotionConfig,
+  notionClient: Client
+): PullSession[] {
+  const targets: Array<{
+    options: DocuNotionOptions;
+    routeBasePath?: string;
+    docsPluginId?: string;
+  }> = config.targets?.length
+    ? config.targets.map(t => ({
+        options: {
+          ...options,
+          rootPage: t.rootPage,
+          database: t.database,
+          markdownOutputPath: t.markdownOutputPath,
+          statusTag: t.statusTag ?? options.statusTag,
+        },
+        routeBasePath: t.routeBasePath,
+        docsPluginId: t.docsPluginId,
+      }))
+    : [{ options }];
+
+  const shared = makeSharedState(options);
+  const sessions = targets.map(
+    (target): PullSession => ({
+      options: target.options,
+      config,
+      notionClient,
+      layoutStrategy: makeLayoutStrategy(options, config),
+      cache: new NotionPageCache(target.options.markdownOutputPath),
+      ...shared,
+      pages: [],
+      outlineLevels: [],
+      outlinePages: [],
+      routeBasePath: target.routeBasePath,
+      docsPluginId: target.docsPluginId,
+      propertyNames: { ...defaultPropertyNames, ...config.propertyNames },
+      propertyNamesChecked: false,
+      limitLookups: makeConcurrencyLimit(kMaxLookupsAtOnce),
+      otherTargets: [],
+    })
   );
+  sessions.forEach(s => (s.otherTargets = sessions.filter(o => o !== s)));
+  return sessions;
+}
+
+function makeLayoutStrategy(
+  options: DocuNotionOptions,
+  config: IDocuNotionConfig
+): LayoutStrategy {
+  if (options.layout) return layoutStrategies[options.layout]();
+  const custom = config.layoutStrategy;
+  if (custom) return typeof custom === "function" ? custom() : custom;
+  return new HierarchicalNamedLayoutStrategy();
+}
 
-  info("Connecting to Notion...");
+// What all the targets of one run share.
+function makeSharedState(
+  options: DocuNotionOptions
+): Pick<PullSession, "counts" | "report" | "dryRunPlan" | "errors" | "now"> {
+  return {
+    counts: {
+      output_normally: 0,
+      skipped_because_empty: 0,
+      skipped_because_status: 0,
+      skipped_because_level_cannot_have_content: 0,
+      skipped_because_scheduled: 0,
+      error_because_no_slug: 0,
+    },
+    report: new RunReport(),
+    dryRunPlan: options.dryRun ? new DryRunPlan() : undefined,
+    errors: [],
+    now: options.now ? parseDate(options.now) : new Date(),
+  };
+}
+
+// The property names in the config are easy to get wrong, e.g. "Statut" vs "Status", and then
+// every page would quietly lack a slug or status. So we check them against the database of the
+// target, or else the first database page we come to, so that we fail before doing much work.
+// `owner` says what `properties` come from, e.g. 'the database page "Introduction"'.
+// Returns the problem, if any.
+function checkPropertyNames(
+  session: PullSession,
+  owner: string,
+  properties: string[]
+): string | undefined {
+  session.propertyNamesChecked = true;
+  const missing = Object.entries(session.config.propertyNames ?? {})
+    .filter(([, name]) => name && !properties.includes(name))
+    .map(([key, name]) => `${key}: "${name}"`);
+  if (!missing.length) return undefined;
+  return `The propertyNames in docu-notion.config.ts name properties that ${owner} does not have: ${missing.join(
+    ", "
+  )}. Its properties are: ${properties.map(p => `"${p}"`).join(", ")}.`;
+}
 
-  // Do a  quick test to see if we can connect to the root so that we can give a better error than just a generic "could not find page" one.
+// Do a  quick test to see if we can connect to the root so that we can give a better error than just a generic "could not find page" one.
+// Returns that error, if any.
+async function checkRootOfTarget(
+  session: PullSession,
+  notionTokenForLogging: string
+): Promise<string | undefined> {
+  const { options, notionClient } = session;
+  const rootKind = options.database ? "database" : "root page";
+  const rootId = options.database ?? options.rootPage;
+  if (!rootId) {
+    return "docu-notion needs a root page, a database, or a list of targets in docu-notion.config.ts to pull from.";
+  }
+  let databaseProperties: string[] | undefined;
   try {
-    await executeWithRateLimitAndRetries("retrieving root page", async () => {
-      await notionClient.pages.retrieve({ page_id: options.rootPage });
+    await executeWithRateLimitAndRetries(`retrieving ${rootKind}`, async () => {
+      if (options.database) {
+        const database = await notionClient.databases.retrieve({
+          database_id: rootId,
+        });
+        databaseProperties = Object.keys(database.properties ?? {});
+      } else {
+        await notionClient.pages.retrieve({ page_id: rootId });
+      }
     });
   } catch (e: any) {
-    error(
-      `docu-notion could not retrieve the root page from Notion. \r\na) Check that the root page id really is "${
-        options.rootPage
-      }".\r\nb) Check that your Notion API token (the "Integration Secret") is correct. It starts with "${
-        optionsForLogging.notionToken
-      }".\r\nc) Check that your root page includes your "integration" in its "connections".\r\nThis internal error message may help:\r\n    ${
-        e.message as string
-      }`
-    );
-    exit(1);
+    return `docu-notion could not retrieve the ${rootKind} from Notion. \r\na) Check that the ${rootKind} id really is "${rootId}".\r\nb) Check that your Notion API token (the "Integration Secret") is correct. It starts with "${notionTokenForLogging}".\r\nc) Check that your ${rootKind} includes your "integration" in its "connections".\r\nThis internal error message may help:\r\n    ${
+      e.message as string
+    }`;
   }
+  return databaseProperties
+    ? checkPropertyNames(session, "the database", databaseProperties)
+    : undefined;
+}
 
+async function getPagesOfTarget(session: PullSession): Promise<NotionPage[]> {
+  const { options } = session;
+  if (options.database) {
+    group(
+      `Stage 1: query the database, using its properties to arrange the pages for ${options.markdownOutputPath}...`
+    );
+    const arranged = arrangeDatabasePages(
+      await queryDatabase(session.notionClient, options.database),
+      session.layoutStrategy,
+      options.markdownOutputPath,
+      session.propertyNames
+    );
+    session.outlineLevels.push(...arranged.levels);
+    return arranged.pages;
+  }
   group(
-    "Stage 1: walk children of the page named 'Outline', looking for pages..."
+    `Stage 1: walk children of the page named 'Outline', looking for pages for ${options.markdownOutputPath}...`
   );
-  await getPagesRecursively(options, "", options.rootPage, 0, true);
-  logDebug("getPagesRecursively", JSON.stringify(pages, null, 2));
-  info(`Found ${pages.length} pages`);
-  endGroup();
-  group(
-    `Stage 2: convert ${pages.length} Notion pages to markdown and save locally...`
+  return await getPagesRecursively(
+    session,
+    "",
+    options.rootPage as string, // checkRootOfTarget() made sure we have one
+    0,
+    true
   );
-  await outputPages(options, config, pages, cache);
-  endGroup();
-  group("Stage 3: clean up old files & images...");
-  await layoutStrategy.cleanupOldFiles();
-  await cleanupOldImages();
-  cache.save();
-  verbose(`Cache saved to: ${options.markdownOutputPath}/.docu-notion-cache.json`);
-  endGroup();
 }
 
-async function outputPages(
+// Returns undefined if a full pull is needed instead.
+async function pullSomePages(
   options: DocuNotionOptions,
-  config: IDocuNotionConfig,
-  pages: Array<NotionPage>,
-  cache: NotionPageCache
-) {
-  const context: IDocuNotionContext = {
-    getBlockChildren: getBlockChildren,
-    // this changes with each page
-    pageInfo: {
-      directoryContainingMarkdown: "",
-      relativeFilePathToFolderContainingPage: "",
-      slug: "",
-    },
-    layoutStrategy: layoutStrategy,
-    notionToMarkdown: notionToMarkdown,
-    options: options,
-    pages: pages,
-    counts: counts, // review will this get copied or pointed to?
-    imports: [],
-    convertNotionLinkToLocalDocusaurusLink: (url: string) =>
-      convertInternalUrl(context, url),
-  };
-  for (const page of pages) {
-    if (
-      !options.forceRefreshPages &&
-      cache.isPageInCacheAndUpToDate(page.pageId, page.lastEditedTime)
-    ) {
-      verbose(`Skipping page because it is in cache and up to date: ${page.nameOrTitle}`);
-      // We have to tell the layout strategy about this page, or it will think
-      // it's an orphan and delete it.
-      layoutStrategy.pageWasSeen(page);
-      continue;
-    }
-    
-    layoutStrategy.pageWasSeen(page);
-    const mdPath = layoutStrategy.getPathForPage(page, ".md");
-
-    // most plugins should not write to disk, but those handling image files need these paths
-    context.pageInfo.directoryContainingMarkdown = Path.dirname(mdPath);
-    // TODO: This needs clarifying: getLinkPathForPage() is about urls, but
-    // downstream images.ts is using it as a file system path
-    context.pageInfo.relativeFilePathToFolderContainingPage = Path.dirname(
-      layoutStrategy.getLinkPathForPage(page)
+  sessions: PullSession[],
+  pageIds: string[]
+): Promise<DocuNotionResult | undefined> {
+  const changed: Array<{ session: PullSession; page: NotionPage }> = [];
+  for (const id of pageIds) {
+    const found = sessions.flatMap(session =>
+      session.pages
+        .filter(page => page.matchesLinkId(id.replaceAll("-", "")))
+        .map(page => ({ session, page }))
+    );
+    if (!found.length) {
+      verbose(`${id} is not a page from the last pull, so pulling everything.`);
+      return undefined;
+    }
+    changed.push(...found);
+  }
+  if (sessions.some(s => s.options.database)) {
+    // the page's properties may have moved it, and querying the database again is cheap anyhow
+    return undefined;
+  }
+
+  const shared = makeSharedState(options);
+  sessions.forEach(s => Object.assign(s, shared));
+  const session = sessions[0];
+  session.report.dryRun = !!options.dryRun;
+  const pages = sessions.flatMap(s => s.pages);
+
+  try {
+    for (const { session: s, page } of changed) {
+      const oldPath = s.layoutStrategy.getPathForPage(page, ".md");
+      const oldUrl = getUrlOfPage(s, page);
+      page.metadata = await getPageMetadata(s.notionClient, page.pageId);
+      if (
+        s.layoutStrategy.getPathForPage(page, ".md") !== oldPath ||
+        getUrlOfPage(s, page) !== oldUrl ||
+        !isPublished(s, page)
+      ) {
+        verbose(
+          `"${page.nameOrTitle}" has moved or is no longer published, so pulling everything.`
+        );
+        return undefined;
+      }
+    }
+
+    // the pages that link to the changed ones may need their links (i.e. slugs and titles) updated
+    const toOutput = [...changed];
+    for (const { page } of changed) {
+      for (const s of sessions) {
+        for (const id of s.cache.getPagesLinkingTo(page.pageId)) {
+          const linkingPage = s.pages.find(p => p.pageId === id);
+          if (linkingPage && !toOutput.some(o => o.page === linkingPage)) {
+            toOutput.push({ session: s, page: linkingPage });
+          }
+        }
+      }
+    }
+
+    group(
+      `Converting ${toOutput.length} pages: ${toOutput
+        .map(o => o.page.nameOrTitle)
+        .join(", ")}`
+    );
+    session.report.startStage("convert");
+    await forEachWithConcurrency(
+      toOutput,
+      Math.max(1, options.concurrency ?? 1),
+      o => outputPage(o.session, getPagesForLinks(o.session), o.page, true)
     );
-    context.pageInfo.slug = page.slug;
-
-    if (
-      page.type === PageType.DatabasePage &&
-      context.options.statusTag != "*" &&
-      page.status !== context.options.statusTag
-    ) {
-      verbose(
-        `Skipping page because status is not '${context.options.statusTag}': ${page.nameOrTitle}`
+    session.report.endStage("convert");
+    endGroup();
+    if (session.counts.error_because_no_slug > 0) {
+      return failed(
+        session,
+        pages,
+        `${session.counts.error_because_no_slug} page(s) are missing a required slug.`
       );
-      ++context.counts.skipped_because_status;
+    }
+    if (session.dryRunPlan) {
+      session.dryRunPlan.report();
     } else {
-      if (options.requireSlugs && !page.hasExplicitSlug) {
-        error(
-          `Page "${page.nameOrTitle}" is missing a required slug. (--require-slugs is set.)`
+      sessions.forEach(s => s.cache.save());
+    }
+  } catch (e: any) {
+    return failed(session, pages, e.message);
+  }
+  writeReportIfRequested(session);
+  return {
+    success: true,
+    errors: [],
+    counts: session.counts,
+    pages,
+    report: session.report,
+  };
+}
+
+async function findChangedPages(sessions: PullSession[]): Promise<string[]> {
+  const changed: string[] = [];
+  for (const session of sessions) {
+    const { options, notionClient } = session;
+    // Fetching every page would take a long time on a big site, so we only do that for the pages
+    // of the outline (and any pages that aren't in a database).
+    const pagesOfDatabases = new Map<string, NotionPage[]>();
+    if (options.database) {
+      pagesOfDatabases.set(normalizeId(options.database), []);
+    }
+    const pagesToCheck: NotionPage[] = [];
+    const seen = new Set<string>();
+    for (const page of [...session.outlinePages, ...session.pages]) {
+      if (seen.has(page.pageId)) continue;
+      seen.add(page.pageId);
+      const databaseId = session.outlinePages.includes(page)
+        ? undefined
+        : getDatabaseId(page);
+      if (databaseId) {
+        pagesOfDatabases.set(databaseId, [
+          ...(pagesOfDatabases.get(databaseId) ?? []),
+          page,
+        ]);
+      } else {
+        pagesToCheck.push(page);
+      }
+    }
+
+    for (const [databaseId, pages] of pagesOfDatabases) {
+      let current: GetPageResponse[];
+      try {
+        current = await queryDatabase(notionClient, databaseId);
+      } catch (e: any) {
+        warning(
+          `Could not query database ${databaseId}, so will pull everything again: ${
+            e.message as string
+          }`
         );
-        ++counts.error_because_no_slug;
+        changed.push(`the pages of database ${databaseId}`);
+        continue;
       }
+      const editTimes = new Map(
+        current.map(m => [normalizeId(m.id), getLastEditedTime(m)])
+      );
+      for (const page of pages) {
+        // a page that is no longer in the database has no edit time here
+        if (editTimes.get(normalizeId(page.pageId)) !== page.lastEditedTime) {
+          changed.push(page.nameOrTitle);
+        }
+      }
+      // a new page matters only if we pull the whole database
+      const known = new Set(pages.map(p => normalizeId(p.pageId)));
+      if (
+        options.database &&
+        [...editTimes.keys()].some(id => !known.has(id))
+      ) {
+        changed.push(`the pages of database ${options.database}`);
+      }
+    }
+
+    const concurrency = Math.max(1, options.concurrency ?? 1);
+    await forEachWithConcurrency(pagesToCheck, concurrency, async page => {
+      let lastEditedTime: string | undefined;
+      try {
+        lastEditedTime = getLastEditedTime(
+          await getPageMetadata(notionClient, page.pageId)
+        );
+      } catch (e) {
+        // e.g., the page has been deleted, which is a change, too
+      }
+      if (lastEditedTime !== page.lastEditedTime) {
+        changed.push(page.nameOrTitle);
+      }
+    });
+  }
+  return changed;
+}
+
+function getLastEditedTime(metadata: GetPageResponse): string | undefined {
+  return "last_edited_time" in metadata ? metadata.last_edited_time : undefined;
+}
+
+// The id (without dashes) of the database this page is in, if it is in one.
+function getDatabaseId(page: NotionPage): string | undefined {
+  const parent = (page.metadata as any).parent;
+  return parent?.type === "database_id"
+    ? normalizeId(parent.database_id as string)
+    : undefined;
+}
+
+function normalizeId(id: string): string {
+  return id.replaceAll("-", "");
+}
+
+// Removes (or in a dry run, lists) the files of this target that we didn't see in this pull.
+async function cleanupTarget(
+  session: PullSession,
+  subtree: OutlineSubtree | undefined
+) {
+  const { layoutStrategy, dryRunPlan, options } = session;
+  // When pulling only part of the outline, we may only delete files in that part's own directory.
+  const onlyDirectory = subtree?.level
+    ? layoutStrategy.getDirectoryForLevel(subtree.level.layoutContext)
+    : undefined;
+  const skipCleanup = !!subtree && !onlyDirectory;
+  if (dryRunPlan) {
+    if (!skipCleanup) {
+      layoutStrategy
+        .getExistingPagesNotSeenYetInPull(onlyDirectory)
+        .forEach(p => dryRunPlan.pageWouldBeDeleted(p));
+    }
+    return;
+  }
+  if (skipCleanup) {
+    verbose(
+      `Not removing any old files from ${options.markdownOutputPath}, because this layout cannot tell which ones belong to the --only part of the outline.`
+    );
+  } else {
+    await layoutStrategy.cleanupOldFiles(onlyDirectory);
+  }
+  updateRedirects(session, subtree);
+  session.cache.save();
+  verbose(
+    `Cache saved to: ${options.markdownOutputPath}/.docu-notion-cache.json`
+  );
+}
 
-      const markdown = await getMarkdownForPage(config, context, page);
-      writePage(page, markdown);
-      
-      // Update cache after successful processing
-      cache.addPage(page.pageId, page.lastEditedTime);
-      verbose(`Added page to cache: ${page.nameOrTitle} (${page.pageId})`);
+// Records the url of each published page in the cache, and adds a redirect to redirects.json for each
+// page whose url has changed since the last pull. Pages that were published before but aren't anymore are
+// listed as removed, unless we only pulled part of the outline.
+function updateRedirects(
+  session: PullSession,
+  subtree: OutlineSubtree | undefined
+) {
+  const { cache, options } = session;
+  const published = (subtree?.pages ?? session.pages).filter(p =>
+    isPublished(session, p)
+  );
+  // A page that no longer matches the status filter keeps its old file (see outputPage()),
+  // so it is still at its old url.
+  const kept = (subtree?.pages ?? session.pages).filter(
+    p => isExcludedByStatus(options, p) && !isOutsideSchedule(session, p)
+  );
+  const redirects = new RedirectMap(options.markdownOutputPath);
+  for (const page of published) {
+    const url = getUrlOfPage(session, page);
+    const previous = cache.getSlug(page.pageId);
+    if (previous && previous !== url) {
+      info(`"${page.nameOrTitle}" moved from ${previous} to ${url}`);
+      redirects.pageMoved(previous, url);
     }
+    cache.setSlug(page.pageId, url);
   }
+  if (!subtree) {
+    for (const { pageId, slug } of cache.getSlugs()) {
+      if (![...published, ...kept].some(p => p.pageId === pageId)) {
+        info(`The page at ${slug} is no longer published`);
+        redirects.pageRemoved(pageId, slug);
+        cache.setSlug(pageId, undefined);
+      }
+    }
+  }
+  published.forEach(page => redirects.pageIsAt(getUrlOfPage(session, page)));
+  kept.forEach(page => {
+    const url = cache.getSlug(page.pageId);
+    if (url) redirects.pageIsAt(url);
+  });
+  redirects.save();
+}
 
-  if (counts.error_because_no_slug > 0) exit(1);
+// The url of the page within the site, i.e. including the routeBasePath of its target, if we know it
+function getUrlOfPage(session: PullSession, page: NotionPage): string {
+  const path = session.layoutStrategy.getLinkPathForPage(page);
+  return session.routeBasePath
+    ? ("/" + session.routeBasePath + "/" + path).replace(/\/+/g, "/")
+    : path;
+}
 
-  info(`Finished processing ${pages.length} pages`);
+function failed(
+  session: PullSession,
+  pages: NotionPage[],
+  message?: string
+): DocuNotionResult {
+  if (message) {
+    error(message);
+    session.errors.push(message);
+  }
+  writeReportIfRequested(session);
+  return {
+    success: false,
+    errors: session.errors,
+    counts: session.counts,
+    pages,
+    report: session.report,
+  };
+}
+
+function writeReportIfRequested(session: PullSession) {
+  if (session.options.report) {
+    session.report.write(session.options.report, session.counts);
+  }
+}
+
+// `pages` is every page in the outline (of every target), so that links can be resolved. `pagesToOutput` are the ones we convert.
+async function outputPages(
+  session: PullSession,
+  pages: Array<NotionPage>,
+  pagesToOutput: Array<NotionPage>
+) {
+  const { options, counts } = session;
+  const concurrency = Math.max(1, options.concurrency ?? 1);
+  if (concurrency > 1) {
+    info(`Converting up to ${concurrency} pages at a time`);
+  }
+  await forEachWithConcurrency(pagesToOutput, concurrency, page =>
+    outputPage(session, pages, page)
+  );
+
+  if (counts.error_because_no_slug > 0) {
+    session.errors.push(
+      `${counts.error_because_no_slug} page(s) are missing a required slug.`
+    );
+    return;
+  }
+
+  info(`Finished processing ${pagesToOutput.length} pages`);
   info(JSON.stringify(counts));
+}
 
-  // Run translation if configured
-  if (options.translation && options.translation.enabled) {
-    group("Starting translation process");
+// Each docs plugin has its own directory of translations, so each target must name a different one.
+function checkTranslationTargets(sessions: PullSession[]) {
+  if (!sessions[0].options.translation?.enabled) return;
+  const pluginIds = sessions.map(s => s.docsPluginId ?? "default");
+  if (new Set(pluginIds).size < pluginIds.length) {
+    throw new Error(
+      "With translation and more than one target, give every target but one a different docsPluginId, so that their translations don't overwrite each other."
+    );
+  }
+}
+
+// Run translation of the markdown of each target, if configured
+async function translateOutput(sessions: PullSession[]) {
+  const { options, report, dryRunPlan } = sessions[0];
+  if (!options.translation?.enabled) return;
+  if (dryRunPlan) {
+    info("Skipping translation because this is a dry run");
+    return;
+  }
+  group("Starting translation process");
+  report.startStage("translation");
+  for (const { options, docsPluginId } of sessions) {
+    if (!options.translation) continue;
     try {
-      const translationPlugin = new TranslationPlugin(options.translation, options);
-      
+      const translationPlugin = new TranslationPlugin(
+        options.translation,
+        options,
+        docsPluginId
+      );
+
       // Validate configuration
       const configErrors = translationPlugin.getConfigurationErrors();
       if (configErrors.length > 0) {
         error("Translation configuration errors:");
         configErrors.forEach(err => error(`  - ${err}`));
-        endGroup();
-        return;
+        continue;
       }
 
-      await translationPlugin.translateGeneratedContent();
+      const translationResults =
+        await translationPlugin.translateGeneratedContent();
+      for (const { targetLanguage, results } of translationResults) {
+        report.translationResults({
+          language: targetLanguage,
+          files: results.length,
+          failures: results.filter(r => !r.success).length,
+          tokensUsed: results.reduce((sum, r) => sum + (r.tokensUsed || 0), 0),
+        });
+      }
     } catch (translationError) {
       error(`Translation failed: ${translationError}`);
     }
-    endGroup();
   }
+  report.endStage("translation");
+  endGroup();
+}
+
+// `force` converts the page even if the cache says it is up to date, e.g. because a page it links to has changed.
+async function outputPage(
+  session: PullSession,
+  pages: Array<NotionPage>,
+  page: NotionPage,
+  force = false
+) {
+  const { options, config, cache, counts, report, layoutStrategy, images } =
+    session;
+  // This comes before the cache, because a page can go out of schedule without being edited.
+  // We don't tell the layout strategy we saw the page, so its old file will be removed.
+  if (isOutsideSchedule(session, page)) {
+    verbose(
+      `Skipping page because it is not scheduled to be published now: ${page.nameOrTitle}`
+    );
+    ++counts.skipped_because_scheduled;
+    report.pageOutcome(page, "skipped-scheduled");
+    cache.removePage(page.pageId);
+    return;
+  }
+  if (
+    !force &&
+    !options.forceRefreshPages &&
+    cache.isPageInCacheAndUpToDate(page.pageId, page.lastEditedTime)
+  ) {
+    verbose(
+      `Skipping page because it is in cache and up to date: ${page.nameOrTitle}`
+    );
+    // We have to tell the layout strategy about this page, or it will think
+    // it's an orphan and delete it.
+    layoutStrategy.pageWasSeen(page);
+    if (images) {
+      keepImagesUsedBy(images, layoutStrategy.getPathForPage(page, ".md"));
+    }
+    report.pageOutcome(
+      page,
+      "cached",
+      layoutStrategy.getPathForPage(page, ".md")
+    );
+    return;
+  }
+
+  layoutStrategy.pageWasSeen(page);
+
+  if (isExcludedByStatus(options, page)) {
+    verbose(
+      `Skipping page because it does not match the status filter '${options.statusTag}': ${page.nameOrTitle}`
+    );
+    ++counts.skipped_because_status;
+    report.pageOutcome(page, "skipped-status");
+    // the page's old file is left in place, so its images are too
+    if (images) {
+      keepImagesUsedBy(images, layoutStrategy.getPathForPage(page, ".md"));
+    }
+    return;
+  }
+
+  const context = makeContextForPage(session, pages, page);
+  let missingSlugError: string | undefined;
+  if (options.requireSlugs && !page.hasExplicitSlug) {
+    missingSlugError = `Page "${page.nameOrTitle}" is missing a required slug. (--require-slugs is set.)`;
+    error(missingSlugError);
+    ++counts.error_because_no_slug;
+  }
+
+  let markdown: string;
+  try {
+    // warnings from the plugins, etc. go in the report along with this page
+    markdown = await collectWarnings(
+      message => report.warning(context.pageInfo, message),
+      () => getMarkdownForPage(config, context, page)
+    );
+  } catch (e: any) {
+    report.pageOutcome(page, "error", undefined, e.message);
+    throw e;
+  }
+  const mdPath = writePage(session, page, markdown);
+  if (missingSlugError) {
+    report.pageOutcome(page, "error", mdPath, missingSlugError);
+  } else {
+    report.pageOutcome(page, "written", mdPath);
+  }
+
+  // Update cache after successful processing (in a dry run, it is not saved)
+  cache.addPage(page.pageId, page.lastEditedTime, context.linkedPageIds);
+  verbose(`Added page to cache: ${page.nameOrTitle} (${page.pageId})`);
 }
 
+function isPublished(session: PullSession, page: NotionPage) {
+  return (
+    !isExcludedByStatus(session.options, page) &&
+    !isOutsideSchedule(session, page)
+  );
+}
+
+// Pages with a Publish date only appear once it has come, and pages with an Unpublish date
+// disappear once it has come.
+function isOutsideSchedule(session: PullSession, page: NotionPage) {
+  const { publishDate, unpublishDate } = page;
+  return (
+    (!!publishDate && parseDate(publishDate) > session.now) ||
+    (!!unpublishDate && parseDate(unpublishDate) <= session.now)
+  );
+}
+
+// Notion gives dates without times as e.g. "2024-05-01", which should mean the start of that day
+// where we are, not in UTC.
+function parseDate(date: string): Date {
+  return new Date(/^\d{4}-\d{2}-\d{2}$/.test(date) ? date + "T00:00" : date);
+}
+
+function isExcludedByStatus(options: DocuNotionOptions, page: NotionPage) {
+  return (
+    page.type === PageType.DatabasePage &&
+    !parseStatusFilter(options.statusTag, options)(page)
+  );
+}
+
+// Own pages first, so that a page that is in more than one target is linked to within this one.
+function getPagesForLinks(session: PullSession): NotionPage[] {
+  return [...session.pages, ...session.otherTargets.flatMap(o => o.pages)];
+}
+
+// Each page gets its own context (and its own NotionToMarkdown, because plugins register
+// custom transformers on it that close over the context) so that several pages can be
+// converted at the same time without stepping on each other's pageInfo or imports.
+function makeContextForPage(
+  session: PullSession,
+  pages: Array<NotionPage>,
+  page: NotionPage
+): IDocuNotionContext {
+  const { layoutStrategy, notionClient } = session;
+  const mdPath = layoutStrategy.getPathForPage(page, ".md");
+  const context: IDocuNotionContext = {
+    getBlockChildren: (id: string) => getBlockChildren(notionClient, id),
+    pageInfo: {
+      // most plugins should not write to disk, but those handling image files need these paths
+      directoryContainingMarkdown: Path.dirname(mdPath),
+      // TODO: This needs clarifying: getLinkPathForPage() is about urls, but
+      // downstream images.ts is using it as a file system path
+      relativeFilePathToFolderContainingPage: Path.dirname(
+        layoutStrategy.getLinkPathForPage(page)
+      ),
+      slug: page.slug,
+    },
+    layoutStrategy: layoutStrategy,
+    notionToMarkdown: new NotionToMarkdown({ notionClient }),
+    options: session.options,
+    pages: pages,
+    counts: session.counts, // shared by all pages
+    imports: [],
+    dryRunPlan: session.dryRunPlan,
+    images: session.images,
+    report: session.report,
+    linkedPageIds: [],
+    otherTargets: session.otherTargets.map(o => ({
+      pages: o.pages,
+      layoutStrategy: o.layoutStrategy,
+      routeBasePath: o.routeBasePath,
+    })),
+    convertNotionLinkToLocalDocusaurusLink: (url: string) =>
+      convertInternalUrl(context, url),
+  };
+  return context;
+}
+
+// Runs `action` on each item, with at most `limit` of them in progress at any one time.
+// Note that all Notion API calls still go through the one rate limiter in executeWithRateLimitAndRetries().
+// Once one action fails, no more items are started; we wait for the ones already in progress
+// and then throw the first error, so that nothing is still writing files after we return.
+export async function forEachWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  action: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const item = items[next++];
+      try {
+        await action(item);
+      } catch (e) {
+        failed = true;
+        throw e;
+      }
+    }
+  };
+  const workers = new Array<Promise<void>>();
+  for (let i = 0; i < Math.min(limit, items.length); i++) {
+    workers.push(worker());
+  }
+  await settleAll(workers);
+}
+
+// Like Promise.all(), except that when one of the promises fails, we still wait for the rest
+// to finish before throwing the first error. Otherwise the caller would go on (e.g. report
+// a failed pull) while some of the work it started is still going.
+async function settleAll<T>(promises: Promise<T>[]): Promise<T[]> {
+  const failures = new Array<unknown>();
+  const results = await Promise.all(
+    promises.map(p =>
+      p.catch(e => {
+        failures.push(e);
+        return undefined as unknown as T;
+      })
+    )
+  );
+  if (failures.length) throw failures[0];
+  return results;
+}
+
+type ConcurrencyLimit = <T>(asyncFunction: () => Promise<T>) => Promise<T>;
+
+// Returns a function that runs the functions given to it, with at most `limit` of them in
+// progress at any one time. Unlike forEachWithConcurrency(), this works for work that is
+// found as we go, like the pages of the outline. (Don't wait for more limited work from inside
+// one of the functions, though, because it may never get its turn.)
+export function makeConcurrencyLimit(limit: number): ConcurrencyLimit {
+  let running = 0;
+  const waiting: Array<() => void> = [];
+  return async <T>(asyncFunction: () => Promise<T>): Promise<T> => {
+    while (running >= limit) {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+    ++running;
+    try {
+      return await asyncFunction();
+    } finally {
+      --running;
+      waiting.shift()?.();
+    }
+  };
+}
+
+// Big outlines would otherwise have a request going for every page at once, all waiting on the rate limiter.
+const kMaxLookupsAtOnce = 6;
+
 // This walks the "Outline" page and creates a list of all the nodes that will
 // be in the sidebar, including the directories, the pages that are linked to
 // that are parented in from the "Database", and any pages we find in the
 // outline that contain content (which we call "Simple" pages). Later, we can
 // then step through this list creating the files we need, and, crucially, be
 // able to figure out what the url will be for any links between content pages.
+// Sibling subtrees and link targets are looked up in parallel (though no more than
+// kMaxLookupsAtOnce at a time, and the rate limiter keeps us within Notion's limits), but the
+// list we return is always in outline order: each child page's subtree in turn, followed by
+// the pages this level links to.
 async function getPagesRecursively(
-  options: DocuNotionOptions,
+  session: PullSession,
   incomingContext: string,
   pageIdOfThisParent: string,
   orderOfThisParent: number,
   rootLevel: boolean
-) {
-  const pageInTheOutline = await fromPageId(
-    incomingContext,
-    pageIdOfThisParent,
-    orderOfThisParent,
-    true
+): Promise<NotionPage[]> {
+  const { counts, report } = session;
+  const pageInTheOutline = await session.limitLookups(() =>
+    fromPageId(
+      session,
+      incomingContext,
+      pageIdOfThisParent,
+      orderOfThisParent,
+      true
+    )
   );
+  session.outlinePages.push(pageInTheOutline);
 
   info(
     `Looking for children and links from ${incomingContext}/${pageInTheOutline.nameOrTitle}`
   );
 
-  const r = await getBlockChildren(pageInTheOutline.pageId);
+  const r = await session.limitLookups(() =>
+    getBlockChildren(session.notionClient, pageInTheOutline.pageId)
+  );
   const pageInfo = await pageInTheOutline.getContentInfo(r);
 
-  if (
+  // A page that has both text content and child pages is a level whose content becomes the
+  // landing page of its category.
+  const isCategoryIndex =
     !rootLevel &&
     pageInfo.hasParagraphs &&
-    pageInfo.childPageIdsAndOrder.length
-  ) {
-    error(
-      `Skipping "${pageInTheOutline.nameOrTitle}"  and its children. docu-notion does not support pages that are both levels and have text content (paragraphs) at the same time. Normally outline pages should just be composed of 1) links to other pages and 2) child pages (other levels of the outline). Note that @-mention style links appear as text paragraphs to docu-notion so must not be used to form the outline.`
-    );
-    ++counts.skipped_because_level_cannot_have_content;
-    return;
-  }
-  if (!rootLevel && pageInfo.hasParagraphs) {
-    pages.push(pageInTheOutline);
-
+    pageInfo.childPageIdsAndOrder.length > 0;
+  if (!rootLevel && pageInfo.hasParagraphs && !isCategoryIndex) {
     // The best practice is to keep content pages in the "database" (e.g. kanban board), but we do allow people to make pages in the outline directly.
     // So how can we tell the difference between a page that is supposed to be content and one that is meant to form the sidebar? If it
     // has only links, then it's a page for forming the sidebar. If it has contents and no links, then it's a content page. But what if
     // it has both? Well then we assume it's a content page.
     if (pageInfo.linksPageIdsAndOrder?.length) {
-      warning(
-        `Note: The page "${pageInTheOutline.nameOrTitle}" is in the outline, has content, and also points at other pages. It will be treated as a simple content page. This is no problem, unless you intended to have all your content pages in the database (kanban workflow) section.`
-      );
+      const message = `Note: The page "${pageInTheOutline.nameOrTitle}" is in the outline, has content, and also points at other pages. It will be treated as a simple content page. This is no problem, unless you intended to have all your content pages in the database (kanban workflow) section.`;
+      warning(message);
     }
+    return [pageInTheOutline];
   }
   // a normal outline page that exists just to create the level, pointing at database pages that belong in this level
   else if (
@@ -289,48 +1248,91 @@ async function getPagesRecursively(
     let layoutContext = incomingContext;
     // don't make a level for "Outline" page at the root
     if (!rootLevel && pageInTheOutline.nameOrTitle !== "Outline") {
-      layoutContext = layoutStrategy.newLevel(
-        options.markdownOutputPath,
+      const category = getCategoryMetadata(pageInTheOutline, r);
+      // the landing page, rather than a generated index, is what the category links to
+      if (isCategoryIndex) delete category.link;
+      layoutContext = session.layoutStrategy.newLevel(
+        session.options.markdownOutputPath,
         pageInTheOutline.order,
         incomingContext,
-        pageInTheOutline.nameOrTitle
+        pageInTheOutline.nameOrTitle,
+        category
       );
-    }
-    for (const childPageInfo of pageInfo.childPageIdsAndOrder) {
-      await getPagesRecursively(
-        options,
-        layoutContext,
-        childPageInfo.id,
-        childPageInfo.order,
-        false
+      const parentLevel = session.outlineLevels.find(
+        l => l.layoutContext === incomingContext
       );
+      session.outlineLevels.push({
+        pageId: pageInTheOutline.pageId,
+        outlinePath:
+          (parentLevel ? parentLevel.outlinePath + "/" : "") +
+          pageInTheOutline.nameOrTitle,
+        layoutContext,
+      });
+      if (isCategoryIndex) {
+        pageInTheOutline.layoutContext = layoutContext;
+        pageInTheOutline.order = 0;
+        pageInTheOutline.isCategoryIndex = true;
+      }
     }
-
-    for (const linkPageInfo of pageInfo.linksPageIdsAndOrder) {
-      pages.push(
-        await fromPageId(
+    const childrenLookup = settleAll(
+      pageInfo.childPageIdsAndOrder.map(childPageInfo =>
+        getPagesRecursively(
+          session,
           layoutContext,
-          linkPageInfo.id,
-          linkPageInfo.order,
+          childPageInfo.id,
+          childPageInfo.order,
           false
         )
-      );
-    }
-  } else {
-    console.info(
-      warning(
-        `Warning: The page "${pageInTheOutline.nameOrTitle}" is in the outline but appears to not have content, links to other pages, or child pages. It will be skipped.`
       )
     );
+    const linksLookup = settleAll(
+      pageInfo.linksPageIdsAndOrder.map(linkPageInfo =>
+        session.limitLookups(() =>
+          fromPageId(
+            session,
+            layoutContext,
+            linkPageInfo.id,
+            linkPageInfo.order,
+            false
+          )
+        )
+      )
+    );
+    // if one of these fails, let the other finish too before we throw
+    await settleAll<unknown>([childrenLookup, linksLookup]);
+    const pagesOfChildren = await childrenLookup;
+    const linkedPages = await linksLookup;
+    const landingPage = pageInTheOutline.isCategoryIndex
+      ? [pageInTheOutline]
+      : [];
+    return [...landingPage, ...pagesOfChildren.flat(), ...linkedPages];
+  } else {
+    const message = `Warning: The page "${pageInTheOutline.nameOrTitle}" is in the outline but appears to not have content, links to other pages, or child pages. It will be skipped.`;
+    console.info(warning(message));
     ++counts.skipped_because_empty;
+    report.pageOutcome(pageInTheOutline, "skipped-empty");
+    return [];
   }
 }
 
-function writePage(page: NotionPage, finalMarkdown: string) {
+function writePage(
+  session: PullSession,
+  page: NotionPage,
+  finalMarkdown: string
+): string {
+  const { dryRunPlan, layoutStrategy } = session;
   const mdPath = layoutStrategy.getPathForPage(page, ".md");
-  verbose(`writing ${mdPath}`);
-  fs.writeFileSync(mdPath, finalMarkdown, {});
-  ++counts.output_normally;
+  if (dryRunPlan) {
+    verbose(`would write ${mdPath}`);
+    dryRunPlan.pageWouldBeWritten(page, mdPath);
+  } else {
+    verbose(`writing ${mdPath}`);
+    // some layouts (e.g. slug) don't make their directories ahead of time
+    fs.mkdirsSync(Path.dirname(mdPath));
+    fs.writeFileSync(mdPath, finalMarkdown, {});
+  }
+  ++session.counts.output_normally;
+  return mdPath;
 }
 
 const notionLimiter = new RateLimiter({
@@ -338,9 +1340,10 @@ const notionLimiter = new RateLimiter({
   interval: "second",
 });
 
-let notionClient: Client;
-
-async function getPageMetadata(id: string): Promise<GetPageResponse> {
+async function getPageMetadata(
+  notionClient: Client,
+  id: string
+): Promise<GetPageResponse> {
   return await executeWithRateLimitAndRetries(`pages.retrieve(${id})`, () => {
     return notionClient.pages.retrieve({
       page_id: id,
@@ -354,10 +1357,11 @@ export async function executeWithRateLimitAndRetries<T>(
   label: string,
   asyncFunction: () => Promise<T>
 ): Promise<T> {
-  await rateLimit();
   const kRetries = 10;
   let lastException = undefined;
   for (let i = 0; i < kRetries; i++) {
+    // every attempt counts against the rate limit, including retries
+    await rateLimit();
     try {
       return await asyncFunction();
     } catch (e: any) {
@@ -395,7 +1399,10 @@ async function rateLimit() {
   await notionLimiter.removeTokens(1);
 }
 
-async function getBlockChildren(id: string): Promise<NotionBlock[]> {
+async function getBlockChildren(
+  notionClient: Client,
+  id: string
+): Promise<NotionBlock[]> {
   // we can only get so many responses per call, so we set this to
   // the first response we get, then keep adding to its array of blocks
   // with each subsequent response
@@ -423,38 +1430,71 @@ async function getBlockChildren(id: string): Promise<NotionBlock[]> {
   } while (start_cursor != null);
 
   if (overallResult?.results?.some(b => !isFullBlock(b))) {
-    error(
+    throw new Error(
       `The Notion API returned some blocks that were not full blocks. docu-notion does not handle this yet. Please report it.`
     );
-    exit(1);
   }
 
   const result = (overallResult?.results as BlockObjectResponse[]) ?? [];
   numberChildrenIfNumberedList(result);
   return result;
 }
+// Gets every page of the database, in the database's default order.
+async function queryDatabase(
+  notionClient: Client,
+  databaseId: string
+): Promise<GetPageResponse[]> {
+  const results: GetPageResponse[] = [];
+  let start_cursor: string | undefined | null = undefined;
+  do {
+    const response: QueryDatabaseResponse =
+      await executeWithRateLimitAndRetries(
+        `databases.query(${databaseId})`,
+        () => {
+          return notionClient.databases.query({
+            database_id: databaseId,
+            start_cursor: start_cursor as string | undefined,
+          });
+        }
+      );
+    results.push(...response.results.filter(r => "properties" in r));
+    start_cursor = response.next_cursor;
+  } while (start_cursor != null);
+  return results;
+}
+
 export function initNotionClient(notionToken: string): Client {
-  notionClient = new Client({
+  return new Client({
     auth: notionToken,
   });
-  return notionClient;
 }
 async function fromPageId(
+  session: PullSession,
   context: string,
   pageId: string,
   order: number,
   foundDirectlyInOutline: boolean
 ): Promise<NotionPage> {
-  const metadata = await getPageMetadata(pageId);
+  const metadata = await getPageMetadata(session.notionClient, pageId);
 
   //logDebug("notion metadata", JSON.stringify(metadata));
-  return new NotionPage({
+  const page = new NotionPage({
     layoutContext: context,
     pageId,
     order,
     metadata,
     foundDirectlyInOutline,
+    propertyNames: session.propertyNames,
   });
+  if (page.type === PageType.DatabasePage && !session.propertyNamesChecked) {
+    const problem = checkPropertyNames(
+      session,
+      `the database page "${page.nameOrTitle}"`,
+      Object.keys((metadata as any).properties ?? {})
+    );
+    if (problem) throw new Error(problem);
+  }
+  return page;
 }
 
 // This function is copied (and renamed from modifyNumberedListObject) from notion-to-md.
@@ -1,8 +1,10 @@
 import * as fs from "fs-extra";
-import { Option, program } from "commander";
+import { InvalidArgumentError, Option, program } from "commander";
 import { setLogLevel } from "./log";
 
-import { notionPull } from "./pull";
+import { layoutStrategies, notionPull } from "./pull";
+import { notionWatch } from "./watch";
+import { notionServe, ServeOptions } from "./serve";
 import path from "path";
 
 export async function run(): Promise<void> {
@@ -11,16 +13,20 @@ export async function run(): Promise<void> {
   console.log(`docu-notion version ${pkg.version}`);
 
   program.name("docu-notion").description("");
-  program.usage("-n <token> -r <root> [options]");
+  program.usage("-n <token> (-r <root> | --database <id>) [options]");
   program
     .requiredOption(
       "-n, --notion-token <string>",
       "notion api token, which looks like secret_3bc1b50XFYb15123RHF243x43450XFY33250XFYa343"
     )
-    .requiredOption(
+    .option(
       "-r, --root-page <string>",
       "The 31 character ID of the page which is the root of your docs page in notion. The code will look like 9120ec9960244ead80fa2ef4bc1bba25. This page must have a child page named 'Outline'"
     )
+    .option(
+      "--database <string>",
+      "Instead of --root-page, the ID of a Notion database to query for pages. The sidebar is then shaped by each page's 'Parent' (a relation to another page in the database), 'Category' (a select), and 'Order' (a number) properties, so no 'Outline' page is needed."
+    )
     .option(
       "-m, --markdown-output-path  <string>",
       "Root of the hierarchy for md files. WARNING: docu-notion will delete files from this directory. Note also that if it finds localized images, it will create an i18n/ directory as a sibling.",
@@ -33,9 +39,23 @@ export async function run(): Promise<void> {
     )
     .option(
       "-t, --status-tag  <string>",
-      "Database pages without a Notion page property 'status' matching this will be ignored. Use '*' to ignore status altogether.",
+      "Database pages without a Notion page property 'status' matching this will be ignored. Use '*' to ignore status altogether. Give several with commas (e.g. 'Publish,Ready'), exclude one with '!' (e.g. '!Draft'), or filter on other properties (e.g. 'Audience=public', or 'Published' for a checkbox).",
       "Publish"
     )
+    .option(
+      "--draft-status  <statuses>",
+      "Comma-separated list of statuses (e.g. 'Review') of database pages to publish with 'draft: true', so that they show up in 'docusaurus start' but not in a production build. They count as matching the status in --status-tag, but its other terms still apply.",
+      parseList
+    )
+    .option(
+      "--unlisted-status  <statuses>",
+      "Comma-separated list of statuses (e.g. 'Hidden') of database pages to publish with 'unlisted: true', so that they can be reached by their url but are not in the sidebar or search. They count as matching the status in --status-tag, but its other terms still apply.",
+      parseList
+    )
+    .option(
+      "--now  <date>",
+      "Pretend it is this date (e.g. 2024-05-01, or 2024-05-01T09:00) when deciding whether pages with a 'Publish date' or 'Unpublish date' property should be published. Useful for testing a schedule."
+    )
     .option(
       "--locales  <codes>",
       "Comma-separated list of iso 639-2 codes, the same list as in docusaurus.config.js, minus the primary (i.e. 'en'). This is needed for image localization.",
@@ -79,34 +99,139 @@ export async function run(): Promise<void> {
       "--force-refresh-images",
       "If set, docu-notion will re-download all images, even if they already exist on disk.",
       false
+    )
+    .option(
+      "--remove-unused-images",
+      "If set, docu-notion will delete the images in the img-output-path that no page uses anymore. Only use this if nothing else puts images in that directory.",
+      false
+    )
+    .option(
+      "--dry-run",
+      "If set, docu-notion will convert pages as usual, but instead of writing or deleting any files, it will list the pages and images that would be created, updated, or deleted.",
+      false
+    )
+    .option(
+      "--strict",
+      "If set, docu-notion will fail, instead of just warning, when two pages would have the same slug or be written to the same file.",
+      false
+    )
+    .option(
+      "--report <file>",
+      "If set, docu-notion will write a JSON report of the run to this file: the outcome for each page, images downloaded or reused, broken internal links, warnings, durations, and translation token usage."
+    )
+    .option(
+      "--only <outline path or page id>",
+      "If set, docu-notion will only convert this page, or this part of the outline and its descendants, e.g. 'Guides/Getting Started'. Files elsewhere are left alone. Links to pages outside of it still work."
+    )
+    .option(
+      "--concurrency <n>",
+      "How many pages to fetch and convert at the same time. All requests to Notion still share the same rate limit.",
+      parseConcurrency,
+      1
+    )
+    .addOption(
+      new Option(
+        "--layout <layout>",
+        "How to name and arrange the markdown files:\n- hierarchical: a directory for each level of the outline, files named for the page titles.\n- flat-guid: every file in the same directory, named for its Notion page id, with a sidebars.json that mirrors the outline.\n- slug: files placed according to the Slug of each page, e.g. /getting-started/install.md.\nIf not given, the layoutStrategy of docu-notion.config.ts is used, if any, else hierarchical."
+      ).choices(Object.keys(layoutStrategies))
+    );
+
+  program.action(async () => {
+    prepareToPull();
+    // pull and convert
+    await notionPull(program.opts()).then(() =>
+      console.log("docu-notion Finished.")
     );
+  });
+
+  program
+    .command("watch")
+    .description(
+      "Pull, then keep checking Notion for changes, pulling again whenever there are some. Takes the same options as a normal pull."
+    )
+    .option(
+      "--interval <seconds>",
+      "How often to check Notion for changes.",
+      parseInterval,
+      60
+    )
+    .action(async (watchOptions: { interval: number }) => {
+      prepareToPull();
+      await notionWatch(program.opts(), watchOptions.interval);
+    });
+
+  program
+    .command("serve")
+    .description(
+      "Pull, then listen for POSTs (e.g. from Notion webhooks or automations) with the id of a page that changed, and pull just that page and the pages that link to it. GET /status shows what it is doing. Takes the same options as a normal pull."
+    )
+    .option("--port <number>", "The port to listen on.", parsePort, 8787)
+    .option(
+      "--host <host>",
+      "The interface to listen on. The default only accepts connections from this machine; use 0.0.0.0 for any.",
+      "127.0.0.1"
+    )
+    .addOption(
+      new Option(
+        "--secret <secret>",
+        "POSTs must have an 'Authorization: Bearer <secret>' header or, for Notion webhooks, be signed with this (the verification token). Required unless listening only on this machine."
+      ).env("DOCU_NOTION_WEBHOOK_SECRET")
+    )
+    .action(async (serveOptions: ServeOptions) => {
+      prepareToPull();
+      await notionServe(program.opts(), serveOptions);
+    });
 
   program.showHelpAfterError();
-  program.parse();
+  await program.parseAsync();
+}
+
+function prepareToPull() {
   setLogLevel(program.opts().logLevel);
   console.log(JSON.stringify(program.opts()));
 
-  // copy in the this version of the css needed to make columns (and maybe other things?) work
-  let pathToCss = "";
-  try {
-    pathToCss = require.resolve(
-      "@sillsdev/docu-notion/dist/docu-notion-styles.css"
+  if (!program.opts().dryRun) {
+    // copy in the this version of the css needed to make columns (and maybe other things?) work
+    let pathToCss = "";
+    try {
+      pathToCss = require.resolve(
+        "@sillsdev/docu-notion/dist/docu-notion-styles.css"
+      );
+    } catch (e) {
+      // when testing from the docu-notion project itself:
+      pathToCss = "./src/css/docu-notion-styles.css";
+    }
+    // make any missing parts of the path exist
+    fs.ensureDirSync(program.opts().cssOutputDirectory);
+    fs.copyFileSync(
+      pathToCss,
+      path.join(program.opts().cssOutputDirectory, "docu-notion-styles.css")
     );
-  } catch (e) {
-    // when testing from the docu-notion project itself:
-    pathToCss = "./src/css/docu-notion-styles.css";
   }
-  // make any missing parts of the path exist
-  fs.ensureDirSync(program.opts().cssOutputDirectory);
-  fs.copyFileSync(
-    pathToCss,
-    path.join(program.opts().cssOutputDirectory, "docu-notion-styles.css")
-  );
-
-  // pull and convert
-  await notionPull(program.opts()).then(() =>
-    console.log("docu-notion Finished.")
-  );
+}
+function parseConcurrency(value: string): number {
+  const n = parseInt(value, 10);
+  if (isNaN(n) || n < 1) {
+    throw new InvalidArgumentError("Must be a whole number of 1 or more.");
+  }
+  return n;
+}
+function parseInterval(value: string): number {
+  const n = parseFloat(value);
+  if (isNaN(n) || n <= 0) {
+    throw new InvalidArgumentError("Must be a number of seconds.");
+  }
+  return n;
+}
+function parsePort(value: string): number {
+  const n = parseInt(value, 10);
+  if (isNaN(n) || n < 1 || n > 65535) {
+    throw new InvalidArgumentError("Must be a port number.");
+  }
+  return n;
+}
+function parseList(value: string): string[] {
+  return value.split(",").map(s => s.trim());
 }
 function parseLocales(value: string): string[] {
   return value.split(",").map(l => l.trim().toLowerCase());
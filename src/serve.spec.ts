@@ -0,0 +1,56 @@
+import * as crypto from "crypto";
+import { getPageIdsFromWebhook, isAuthorized } from "./serve";
+
+describe("getPageIdsFromWebhook", () => {
+  it("reads Notion webhook events about pages", () => {
+    expect(
+      getPageIdsFromWebhook({
+        entity: { id: "153104cd-477e-809d-8dc4-ff2d96ae3090", type: "page" },
+      })
+    ).toEqual(["153104cd-477e-809d-8dc4-ff2d96ae3090"]);
+    expect(
+      getPageIdsFromWebhook({ entity: { id: "abc", type: "database" } })
+    ).toEqual([]);
+  });
+
+  it("reads Notion automation webhooks", () => {
+    expect(
+      getPageIdsFromWebhook({ data: { object: "page", id: "abc" } })
+    ).toEqual(["abc"]);
+  });
+
+  it("reads simple bodies", () => {
+    expect(getPageIdsFromWebhook({ pageId: "abc" })).toEqual(["abc"]);
+    expect(getPageIdsFromWebhook({ pageIds: ["abc", "def", 3] })).toEqual([
+      "abc",
+      "def",
+    ]);
+    expect(getPageIdsFromWebhook({})).toEqual([]);
+  });
+});
+
+describe("isAuthorized", () => {
+  const body = '{"entity":{"id":"abc","type":"page"}}';
+
+  it("accepts the secret as a bearer token", () => {
+    expect(
+      isAuthorized({ authorization: "Bearer s3cret" }, body, "s3cret")
+    ).toBe(true);
+    expect(
+      isAuthorized({ authorization: "Bearer guess" }, body, "s3cret")
+    ).toBe(false);
+    expect(isAuthorized({}, body, "s3cret")).toBe(false);
+  });
+
+  it("accepts a Notion signature of the body", () => {
+    const signature =
+      "sha256=" +
+      crypto.createHmac("sha256", "s3cret").update(body).digest("hex");
+    expect(
+      isAuthorized({ "x-notion-signature": signature }, body, "s3cret")
+    ).toBe(true);
+    expect(
+      isAuthorized({ "x-notion-signature": signature }, body + " ", "s3cret")
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,212 @@
+import * as crypto from "crypto";
+import * as http from "http";
+import { loadConfigAsync } from "./config/configuration";
+import { error, info, verbose } from "./log";
+import { createDocuNotion, DocuNotion, DocuNotionOptions } from "./pull";
+
+type ServeStatus = {
+  startedAt: string;
+  // "pulling" while a pull is running
+  state: "idle" | "pulling";
+  // page ids waiting for the current pull to finish
+  queue: string[];
+  lastPull?: {
+    finishedAt: string;
+    // undefined for the full pull we do at startup
+    pageIds?: string[];
+    success: boolean;
+    errors: string[];
+    counts: Record<string, number>;
+  };
+};
+
+// The parts of the POSTs we understand; see getPageIdsFromWebhook()
+type WebhookBody = {
+  entity?: { id?: unknown; type?: unknown };
+  data?: { id?: unknown; object?: unknown };
+  pageId?: unknown;
+  page_id?: unknown;
+  pageIds?: unknown;
+  verification_token?: string;
+};
+
+export type ServeOptions = {
+  port: number;
+  // the interface to listen on; only this machine can reach the default, 127.0.0.1
+  host: string;
+  // If given, a POST must prove that it knows this, either with an "Authorization: Bearer <secret>"
+  // header, or (for Notion webhooks, whose verification token is the secret) an X-Notion-Signature.
+  secret?: string;
+};
+
+// This is what `docu-notion serve` uses. After a normal pull, it listens for POSTs from Notion
+// webhooks or automations (or anything else) naming a page that has changed, and pulls just that page
+// and the pages that link to it. GET /status tells you what it is up to. It runs until the process is stopped.
+export async function notionServe(
+  options: DocuNotionOptions,
+  { port, host, secret }: ServeOptions
+): Promise<void> {
+  if (!secret && !isLoopback(host)) {
+    throw new Error(
+      `To listen on ${host}, give a --secret, so that not just anyone who can reach the server can start a pull.`
+    );
+  }
+  const config = await loadConfigAsync();
+  const docuNotion = createDocuNotion(options, config);
+  const status: ServeStatus = {
+    startedAt: new Date().toISOString(),
+    state: "idle",
+    queue: [],
+  };
+
+  const server = http.createServer((request, response) => {
+    if (request.method === "GET" && request.url === "/status") {
+      respond(response, 200, status);
+      return;
+    }
+    if (request.method !== "POST") {
+      respond(response, 404, { error: "POST a page id, or GET /status" });
+      return;
+    }
+    readBody(request)
+      .then(({ body, raw }) => {
+        // When you subscribe to Notion webhooks, Notion sends a token that you have to paste back into Notion.
+        // It isn't signed yet, but all we do with it is log it.
+        if (body.verification_token) {
+          info(`Notion webhook verification token: ${body.verification_token}`);
+          respond(response, 200, {});
+          return;
+        }
+        if (secret && !isAuthorized(request.headers, raw, secret)) {
+          respond(response, 401, {
+            error: "Missing or wrong secret or signature",
+          });
+          return;
+        }
+        const pageIds = getPageIdsFromWebhook(body);
+        if (!pageIds.length) {
+          respond(response, 400, { error: "Could not find a page id" });
+          return;
+        }
+        verbose(`Webhook asked for ${pageIds.join(", ")}`);
+        status.queue.push(...pageIds.filter(id => !status.queue.includes(id)));
+        respond(response, 202, { queued: pageIds });
+        void processQueue(docuNotion, status);
+      })
+      .catch((e: Error) => respond(response, 400, { error: e.message }));
+  });
+
+  server.listen(port, host);
+  info(
+    `Listening for page ids on http://${host}:${port}/ (and status on /status). Press Ctrl+C to stop.`
+  );
+
+  status.state = "pulling";
+  const result = await docuNotion.pull();
+  status.lastPull = {
+    finishedAt: new Date().toISOString(),
+    success: result.success,
+    errors: result.errors,
+    counts: result.counts,
+  };
+  status.state = "idle";
+  // anything that came in while we were doing the first pull
+  await processQueue(docuNotion, status);
+}
+
+// Pulls the queued pages, one batch at a time, until there are none left.
+async function processQueue(docuNotion: DocuNotion, status: ServeStatus) {
+  if (status.state === "pulling") return; // the running pull will get to them
+  while (status.queue.length) {
+    const pageIds = status.queue.splice(0);
+    status.state = "pulling";
+    try {
+      const result = await docuNotion.pullPages(pageIds);
+      status.lastPull = {
+        finishedAt: new Date().toISOString(),
+        pageIds,
+        success: result.success,
+        errors: result.errors,
+        counts: result.counts,
+      };
+    } catch (e: any) {
+      error(`Pulling ${pageIds.join(", ")} failed: ${e.message as string}`);
+    }
+    status.state = "idle";
+  }
+}
+
+// Finds the page ids in the body of a POST. We accept
+// * Notion webhooks: { "entity": { "id": "…", "type": "page" }, … }
+// * Notion database automations ("Send webhook"): { "data": { "object": "page", "id": "…" }, … }
+// * something simple, for scripts: { "pageId": "…" } or { "pageIds": ["…", "…"] }
+export function getPageIdsFromWebhook(body: WebhookBody): string[] {
+  const ids: unknown[] = [];
+  if (body.entity?.type === "page") ids.push(body.entity.id);
+  if (body.data?.object === "page") ids.push(body.data.id);
+  ids.push(body.pageId, body.page_id);
+  if (Array.isArray(body.pageIds)) ids.push(...body.pageIds);
+  return ids.filter((id): id is string => typeof id === "string" && !!id);
+}
+
+// Does the request carry the secret, or a signature of its body made with the secret?
+// Notion signs webhooks with an HMAC-SHA256 of the body, keyed by the verification token.
+export function isAuthorized(
+  headers: http.IncomingHttpHeaders,
+  rawBody: string,
+  secret: string
+): boolean {
+  const signature = headers["x-notion-signature"];
+  if (typeof signature === "string") {
+    const expected =
+      "sha256=" +
+      crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+    return safeEqual(signature, expected);
+  }
+  return safeEqual(headers.authorization ?? "", `Bearer ${secret}`);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return (
+    bufferA.length === bufferB.length &&
+    crypto.timingSafeEqual(bufferA, bufferB)
+  );
+}
+
+function isLoopback(host: string): boolean {
+  return ["127.0.0.1", "::1", "localhost"].includes(host);
+}
+
+function readBody(
+  request: http.IncomingMessage
+): Promise<{ body: WebhookBody; raw: string }> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    request.on("data", (chunk: Buffer) => {
+      body += chunk.toString();
+      if (body.length > 1000000) {
+        reject(new Error("Request too large"));
+        request.destroy();
+      }
+    });
+    request.on("end", () => {
+      try {
+        const parsed: unknown = body ? JSON.parse(body) : {};
+        if (typeof parsed !== "object" || parsed === null) {
+          throw new Error();
+        }
+        resolve({ body: parsed as WebhookBody, raw: body });
+      } catch (e) {
+        reject(new Error("The body must be a JSON object"));
+      }
+    });
+    request.on("error", reject);
+  });
+}
+
+function respond(response: http.ServerResponse, code: number, body: unknown) {
+  response.writeHead(code, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body, null, 2));
+}
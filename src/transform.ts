@@ -1,12 +1,15 @@
 import chalk from "chalk";
 import {
   IDocuNotionContext,
+  IFrontmatter,
   IRegexMarkdownModification,
 } from "./plugins/pluginTypes";
 import { error, info, logDebug, logDebugFn, verbose, warning } from "./log";
 import { NotionPage } from "./NotionPage";
 import { IDocuNotionConfig } from "./config/configuration";
 import { NotionBlock } from "./types";
+import { stringify } from "yaml";
+import { isCategoryCallout } from "./CategoryMetadata";
 import { executeWithRateLimitAndRetries } from "./pull";
 import {
   optimizeListProcessing,
@@ -29,12 +32,18 @@ export async function getMarkdownForPage(
     )})`
   );
 
-  const blocks = await context.getBlockChildren(page.pageId);
+  let blocks = await context.getBlockChildren(page.pageId);
+  if (page.isCategoryIndex) {
+    // the child pages are the rest of the category, and the settings are for the category
+    blocks = blocks.filter(
+      b => b.type !== "child_page" && !isCategoryCallout(b)
+    );
+  }
 
   logDebugFn("markdown from page", () => JSON.stringify(blocks, null, 2));
 
   const body = await getMarkdownFromNotionBlocks(context, config, blocks);
-  const frontmatter = await getFrontMatter(page, context); // todo should be a plugin
+  const frontmatter = await getFrontMatter(config, page, context);
   return `${frontmatter}\n${body}`;
 }
 
@@ -268,58 +277,25 @@ function registerNotionToMarkdownCustomTransforms(
   });
 }
 
-// enhance:make this built-in plugin so that it can be overridden
+// The frontmatter is built by the plugins (see standardFrontmatter), then written as YAML.
 async function getFrontMatter(
+  config: IDocuNotionConfig,
   page: NotionPage,
   context: IDocuNotionContext
 ): Promise<string> {
-  let frontmatter = "---\n";
-  frontmatter += `title: ${page.nameOrTitle.replaceAll(":", "-")}\n`; // I have not found a way to escape colons
-  frontmatter += `description: "${page.description}"\n`;
-  frontmatter += `sidebar_position: ${page.order}\n`;
-  frontmatter += `slug: ${page.slug ?? ""}\n`;
-  if (page.authors !== "") {
-    frontmatter += `authors: [${page.authors}]\n`;
-  }
-  // Assuming `last_edited_time` is a string in ISO format
-  const createdTime = (page.metadata as any).created_time as string;
-  // Convert to Date object
-  const dateCreatedTime = new Date(createdTime);
-  // Format the date to YYYY-MM-DD
-  const formattedDateCreatedTime = dateCreatedTime.toISOString().slice(0, 10);
-  frontmatter += `date: ${formattedDateCreatedTime}\n`;
-
-  // if (page.tags !== "") {
-  //   frontmatter += `tags: [${page.tags}]\n`;
-  // }
-  if (page.keywords) frontmatter += `keywords: [${page.keywords}]\n`;
-  if (page.keywords) frontmatter += `tags: [${page.keywords}]\n`;
-
-  // Assuming `last_edited_time` is a string in ISO format
-  const lastEditedTime = (page.metadata as any).last_edited_time as string;
-  // Convert to Date object
-  const date = new Date(lastEditedTime);
-  // Format the date to YYYY-MM-DD
-  const formattedDate = date.toISOString().slice(0, 10);
-
-  // Set last author
-  if (page.lastauthor) {
-    frontmatter += `last_update: \n date: ${formattedDate}\n author: ${page.lastauthor}\n`
-  }
-
-  // Set image
-  if (page.image) {
-    frontmatter += `image: ${page.image}\n`
+  const frontmatter: IFrontmatter = {};
+  for (const plugin of config.plugins) {
+    if (plugin.frontmatter) {
+      logDebug("frontmatter plugin:", plugin.name);
+      await plugin.frontmatter(context, page, frontmatter);
+    }
   }
+  return frontmatterToYaml(frontmatter);
+}
 
-  // if (page.frontmatter) {
-  //   const notionFrontmatter = page.frontmatter;
-  //   const notionFromtmatterProperties = notionFrontmatter.split("\n");
-  //   notionFromtmatterProperties.forEach(property => {
-  //     frontmatter += `${property}\n`;
-  //   });
-  // }
-
-  frontmatter += "---\n";
-  return frontmatter;
+// The YAML serializer takes care of quoting, so titles can have colons, quotes, "#", etc.
+export function frontmatterToYaml(frontmatter: IFrontmatter): string {
+  if (!Object.keys(frontmatter).length) return "---\n---\n";
+  // lineWidth: 0 keeps long values, like descriptions, on one line
+  return "---\n" + stringify(frontmatter, { lineWidth: 0 }) + "---\n";
 }
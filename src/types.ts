@@ -5,5 +5,9 @@ export type ICounts = {
   output_normally: number;
   skipped_because_empty: number;
   skipped_because_status: number;
+  /** @deprecated Levels with text now become the landing page of their category, so this is always 0. */
   skipped_because_level_cannot_have_content: number;
+  // optional so that plugins and tests that make their own counts don't have to give it;
+  // docu-notion always fills it in
+  skipped_because_scheduled?: number;
 };
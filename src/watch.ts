@@ -0,0 +1,38 @@
+import { loadConfigAsync } from "./config/configuration";
+import { info, verbose, warning } from "./log";
+import { createDocuNotion, DocuNotionOptions } from "./pull";
+
+// This is what `docu-notion watch` uses. It does a normal pull, then every `intervalSeconds` it
+// cheaply checks whether anything has changed in Notion and, if so, pulls again. Because of the
+// cache, only the pages that changed are converted again. It runs until the process is stopped,
+// so that someone previewing with `docusaurus start` sees their Notion edits soon after making them.
+export async function notionWatch(
+  options: DocuNotionOptions,
+  intervalSeconds: number
+): Promise<void> {
+  const config = await loadConfigAsync();
+  const docuNotion = createDocuNotion(options, config);
+  let lastPullSucceeded = (await docuNotion.pull()).success;
+  info(
+    `Watching Notion for changes every ${intervalSeconds} seconds. Press Ctrl+C to stop.`
+  );
+  for (;;) {
+    await new Promise(resolve => setTimeout(resolve, intervalSeconds * 1000));
+    // if the last pull failed, we don't know what we have, so we just try again
+    if (lastPullSucceeded) {
+      let changed: string[];
+      try {
+        changed = await docuNotion.findChangedPages();
+      } catch (e: any) {
+        warning(`Could not check Notion for changes: ${e.message as string}`);
+        continue;
+      }
+      if (!changed.length) {
+        verbose("No changes in Notion.");
+        continue;
+      }
+      info(`Changed in Notion: ${changed.join(", ")}`);
+    }
+    lastPullSucceeded = (await docuNotion.pull()).success;
+  }
+}